@@ -0,0 +1,142 @@
+import { describe, it, expect, expectTypeOf, beforeEach, vi } from "vitest";
+import { z } from "zod";
+import {
+   ActionResult,
+   getClient,
+   NotFoundError,
+   setAuthProvider,
+} from "../src";
+import { createTestClient } from "../src/testing";
+
+const requestHeaders = vi.hoisted(() => ({
+   current: (): Headers => new Headers(),
+}));
+
+vi.mock("next/headers", () => ({
+   headers: async () => requestHeaders.current(),
+}));
+
+const client = () => getClient<any, any, unknown, unknown, unknown>();
+
+beforeEach(() => {
+   createTestClient({ lang: "en" });
+   requestHeaders.current = () => new Headers();
+});
+
+const createPostAction = () =>
+   client()
+      .verifyBody(
+         z.object({ title: z.string().min(1), tags: z.array(z.string()) })
+      )
+      .action(async (ctx) => ({ id: "post-1", ...ctx.body }));
+
+describe("action", () => {
+   it("객체 입력을 검증하고 handler의 반환값을 data로 반환해야 한다", async () => {
+      const createPost = createPostAction();
+      const result = await createPost({ title: "hello", tags: ["a"] });
+
+      expectTypeOf(createPost)
+         .parameter(0)
+         .toEqualTypeOf<{ title: string; tags: string[] } | FormData>();
+      expect(result).toEqual({
+         ok: true,
+         data: { id: "post-1", title: "hello", tags: ["a"] },
+      });
+   });
+
+   it("FormData 입력은 객체로 변환해 검증해야 한다", async () => {
+      const formData = new FormData();
+      formData.append("title", "hello");
+      formData.append("tags", "a");
+      formData.append("tags", "b");
+
+      const result = await createPostAction()(formData);
+
+      expect(result).toEqual({
+         ok: true,
+         data: { id: "post-1", title: "hello", tags: ["a", "b"] },
+      });
+   });
+
+   it("zod 검증에 실패하면 필드별 에러를 반환해야 한다", async () => {
+      const result = await createPostAction()({
+         title: "",
+         tags: [1] as any,
+      });
+
+      expect(result.ok).toBe(false);
+      if (result.ok) return;
+      expect(result.error.code).toBe(400);
+      expect(result.error.error.fieldErrors).toEqual({
+         title: [expect.any(String)],
+         "tags.0": [expect.any(String)],
+      });
+   });
+
+   it("ServerError를 ErrorResponse로 변환해야 한다", async () => {
+      const removePost = client().action(async () => {
+         throw new NotFoundError();
+      });
+
+      const result: ActionResult<unknown> = await removePost();
+
+      expect(result).toMatchObject({
+         ok: false,
+         error: { code: 404, message: "Data not found." },
+      });
+   });
+
+   it("인증 전략은 next/headers의 요청 헤더로 실행되어야 한다", async () => {
+      setAuthProvider(async (req) => {
+         const sid = req.cookies.get("sid")?.value;
+         return sid ? { id: sid } : null;
+      });
+      const whoAmI = client()
+         .auth<"session", { id: string }>("session")
+         .action(async (ctx) => ctx.session.id);
+
+      expect(await whoAmI()).toEqual({
+         ok: false,
+         error: {
+            code: 401,
+            message: "UNAUTHORIZED_ERROR",
+            error: { url: "http://localhost/", method: "POST" },
+         },
+      });
+
+      requestHeaders.current = () => new Headers({ cookie: "sid=user-1" });
+      expect(await whoAmI()).toEqual({ ok: true, data: "user-1" });
+   });
+
+   it("요청 범위 밖에서 헤더를 읽을 수 없어도 실행되어야 한다", async () => {
+      requestHeaders.current = () => {
+         throw new Error("headers was called outside a request scope");
+      };
+      const ping = client().action(async () => "pong");
+
+      expect(await ping()).toEqual({ ok: true, data: "pong" });
+   });
+
+   it("verifyFormData()를 사용하면 multipart로 전달해야 한다", async () => {
+      const upload = client()
+         .verifyFormData(z.object({ name: z.string() }), {
+            files: { avatar: { maxSize: 1024, mimeTypes: ["image/png"] } },
+         })
+         .action(async (ctx) => ({
+            name: ctx.form.fields.name,
+            size: ctx.form.files.avatar?.[0]?.size,
+         }));
+
+      const formData = new FormData();
+      formData.append("name", "jerry");
+      formData.append(
+         "avatar",
+         new File(["png"], "a.png", { type: "image/png" })
+      );
+
+      expect(await upload(formData)).toEqual({
+         ok: true,
+         data: { name: "jerry", size: 3 },
+      });
+   });
+});
@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createHmac } from "crypto";
 import { NextRequest } from "next/server";
 import {
    registerStrategy,
@@ -8,6 +9,8 @@ import {
    clearStrategy,
    setAuthProvider,
    getAuthProvider,
+   createInternalSignature,
+   verifyInternalSignature,
 } from "../src/auth";
 
 declare module "../src/auth" {
@@ -103,3 +106,127 @@ describe("Auth 전략 모듈 테스트", () => {
       expect(result.errorResponse?.status).toBe(401); // 시그니처 불일치로 권한 없음
    });
 });
+
+describe("내부 요청 서명 (Web Crypto)", () => {
+   const secret = "test-secret";
+
+   // Web Crypto 전환 이전의 Node `createHmac` 구현
+   const legacySignature = (timestamp: string, method: string, path: string) =>
+      createHmac("sha256", secret)
+         .update(`${timestamp}:${method}:${path}`)
+         .digest("hex");
+
+   const internalRequest = (
+      path: string,
+      signature: string,
+      timestamp = String(Date.now())
+   ) =>
+      new NextRequest(`http://localhost${path}`, {
+         headers: {
+            "x-internal-signature": signature,
+            "x-internal-timestamp": timestamp,
+         },
+      });
+
+   beforeEach(() => {
+      clearStrategy();
+      vi.stubEnv("INTERNAL_SERVER_SECRET_KEY", secret);
+   });
+
+   it("createInternalSignature는 기존 Node 구현과 같은 서명을 만들어야 한다", async () => {
+      const timestamp = String(Date.now());
+
+      expect(
+         await createInternalSignature(timestamp, "POST", "/api/jobs", secret)
+      ).toBe(legacySignature(timestamp, "POST", "/api/jobs"));
+   });
+
+   it("기존 Node 구현으로 만든 서명을 검증해야 한다", async () => {
+      const timestamp = String(Date.now());
+      const signature = legacySignature(timestamp, "GET", "/api/internal");
+
+      expect(
+         await verifyInternalSignature(
+            signature,
+            timestamp,
+            "GET",
+            "/api/internal",
+            secret
+         )
+      ).toBe(true);
+
+      const result = await getStrategy("internal")!.run(
+         internalRequest("/api/internal", signature, timestamp)
+      );
+      expect(result.errorResponse).toBeUndefined();
+   });
+
+   it("경로나 키가 다르거나 hex 형식이 아니면 검증에 실패해야 한다", async () => {
+      const timestamp = String(Date.now());
+      const signature = legacySignature(timestamp, "GET", "/api/internal");
+
+      await expect(
+         verifyInternalSignature(
+            signature,
+            timestamp,
+            "GET",
+            "/api/other",
+            secret
+         )
+      ).resolves.toBe(false);
+      await expect(
+         verifyInternalSignature(
+            signature,
+            timestamp,
+            "GET",
+            "/api/internal",
+            "x"
+         )
+      ).resolves.toBe(false);
+      await expect(
+         verifyInternalSignature(
+            signature.toUpperCase(),
+            timestamp,
+            "GET",
+            "/api/internal",
+            secret
+         )
+      ).resolves.toBe(false);
+   });
+
+   it("30초가 지났거나 숫자가 아닌 타임스탬프는 401을 반환해야 한다", async () => {
+      const expired = String(Date.now() - 31 * 1000);
+      const strategy = getStrategy("internal")!;
+
+      const expiredResult = await strategy.run(
+         internalRequest(
+            "/api/internal",
+            legacySignature(expired, "GET", "/api/internal"),
+            expired
+         )
+      );
+      const invalidResult = await strategy.run(
+         internalRequest(
+            "/api/internal",
+            legacySignature("abc", "GET", "/api/internal"),
+            "abc"
+         )
+      );
+
+      expect(expiredResult.errorResponse?.status).toBe(401);
+      expect(invalidResult.errorResponse?.status).toBe(401);
+   });
+
+   it("internal-session 전략도 서명이 맞으면 통과해야 한다", async () => {
+      const timestamp = String(Date.now());
+      const result = await getStrategy("internal-session")!.run(
+         internalRequest(
+            "/api/internal",
+            legacySignature(timestamp, "GET", "/api/internal"),
+            timestamp
+         )
+      );
+
+      expect(result).toEqual({ result: { session: null } });
+   });
+});
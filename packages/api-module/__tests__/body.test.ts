@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { z } from "zod";
+import { getClient, getMessage } from "../src";
+import { createTestClient, invoke } from "../src/testing";
+
+beforeEach(() => {
+   createTestClient();
+});
+
+describe("verifyBody content-type", () => {
+   const schema = z.object({ name: z.string() });
+
+   const rawBody = (body: string, contentType: string) => ({
+      method: "POST",
+      body,
+      headers: { "content-type": contentType },
+   });
+
+   it("잘못된 JSON 본문은 400 에러와 메시지를 반환해야 한다", async () => {
+      const handler = getClient()
+         .verifyBody(schema)
+         .handle(async () => ({ ok: true }));
+
+      const res = await invoke(
+         handler,
+         rawBody("{ invalid", "application/json")
+      );
+
+      expect(res.status).toBe(400);
+      expect(res.body?.message).toBe(getMessage("INVALID_JSON_ERROR"));
+   });
+
+   it("허용되지 않은 Content-Type은 415 에러를 반환해야 한다", async () => {
+      const handler = getClient()
+         .verifyBody(schema)
+         .handle(async () => ({ ok: true }));
+
+      const res = await invoke(handler, rawBody("name=jerry", "text/csv"));
+
+      expect(res.status).toBe(415);
+   });
+
+   it("허용한 경우 urlencoded, text 본문을 파싱해야 한다", async () => {
+      const formHandler = getClient()
+         .verifyBody(schema, {
+            contentTypes: ["application/x-www-form-urlencoded"],
+         })
+         .handle(async (_, ctx) => ({ name: ctx.body.name }));
+
+      const textHandler = getClient()
+         .verifyBody(z.string(), { contentTypes: ["text/plain"] })
+         .handle(async (_, ctx) => ({ text: ctx.body }));
+
+      const formRes = await invoke(
+         formHandler,
+         rawBody("name=jerry", "application/x-www-form-urlencoded")
+      );
+      const textRes = await invoke(
+         textHandler,
+         rawBody("hello", "text/plain;charset=UTF-8")
+      );
+
+      expect(formRes.body?.data).toEqual({ name: "jerry" });
+      expect(textRes.body?.data).toEqual({ text: "hello" });
+   });
+
+   it("본문이 비어 있으면 스키마 검증 결과에 따라 400 에러를 반환해야 한다", async () => {
+      const handler = getClient()
+         .verifyBody(schema)
+         .handle(async () => ({ ok: true }));
+
+      const res = await invoke(handler, rawBody("", "application/json"));
+
+      expect(res.status).toBe(400);
+   });
+});
+
+describe("verifyBody fieldErrors", () => {
+   it("Object.prototype과 이름이 같은 필드 경로도 400 에러로 응답해야 한다", async () => {
+      const handler = getClient()
+         .verifyBody(z.record(z.number()))
+         .handle(async () => ({ ok: true }));
+
+      const res = await invoke(handler, {
+         method: "POST",
+         body: { constructor: "x", toString: "y" },
+      });
+
+      expect(res.status).toBe(400);
+      expect(res.body?.error?.fieldErrors).toEqual({
+         constructor: ["Expected number, received string"],
+         toString: ["Expected number, received string"],
+      });
+   });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createApiCaller } from "../src/caller";
+import type { RouteFunction } from "../src/handler";
+
+// 프론트엔드 번들에서 사용할 수 없는 서버 모듈을 import 하면 이 파일의 로드가 실패합니다.
+vi.mock("next/server", () => {
+   throw new Error("next/server must not be imported from the caller entry");
+});
+vi.mock("next/headers", () => {
+   throw new Error("next/headers must not be imported from the caller entry");
+});
+vi.mock("reflect-metadata", () => {
+   throw new Error(
+      "reflect-metadata must not be imported from the caller entry"
+   );
+});
+
+afterEach(() => {
+   vi.unstubAllGlobals();
+});
+
+type Routes = { "GET /ping": RouteFunction<number, Record<string, string>> };
+
+describe("caller entry", () => {
+   it("서버 모듈 없이 로드되고 요청을 보낼 수 있어야 한다", async () => {
+      const fetchMock = vi.fn(
+         async () =>
+            new Response(JSON.stringify({ code: 200, message: "", data: 1 }), {
+               headers: { "content-type": "application/json" },
+            })
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const api = createApiCaller<Routes>({ baseUrl: "http://localhost/api" });
+
+      expect(await api("GET /ping")).toBe(1);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+   });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, expectTypeOf, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import {
+   createRouteHandler,
+   ClientInstanceOptions,
+   createApiCaller,
+   ApiClientError,
+   InferRoute,
+   NotFoundError,
+} from "../src";
+
+vi.mock("../src/messeage", () => ({
+   getMessage: (key: string) => `MOCKED_MESSAGE: ${key}`,
+}));
+
+const mockOptions: ClientInstanceOptions = {
+   lang: "kr",
+   pagination: {
+      pageIndex: "pi",
+      pageSize: "ps",
+      sortBy: "sb",
+      sortOrder: "so",
+   },
+};
+
+const getUser = createRouteHandler<{ id: string; name: string }, any>(
+   mockOptions
+)
+   .verifyParams(z.object({ id: z.string() }))
+   .verifyQuery(z.object({ fields: z.string().optional() }))
+   .handle(async (_, ctx) => {
+      if (ctx.params.id === "404") throw new NotFoundError();
+      return { id: ctx.params.id, name: ctx.query.fields ?? "jerry" };
+   });
+
+const createUser = createRouteHandler<{ id: string }, any>(mockOptions)
+   .verifyBody(z.object({ name: z.string() }))
+   .handle(async (_, ctx) => ({ id: `new-${ctx.body.name}` }));
+
+const routes = {
+   "GET /users/{id}": getUser,
+   "POST /users": createUser,
+};
+
+// ✅ 실제 네트워크 대신 라우트 핸들러를 직접 호출하는 fetch
+const fakeFetch = vi.fn(async (input: string, init: RequestInit) => {
+   const req = new NextRequest(input, { ...init, signal: undefined });
+   const [, , id = ""] = req.nextUrl.pathname.split("/");
+   return id
+      ? getUser(req, { params: Promise.resolve({ id }) })
+      : createUser(req, { params: Promise.resolve({}) });
+});
+
+const api = createApiCaller<typeof routes>({
+   baseUrl: "http://localhost",
+   fetch: fakeFetch as unknown as typeof fetch,
+});
+
+describe("InferRoute", () => {
+   it("라우트 핸들러로부터 요청/응답 타입을 추론해야 한다", () => {
+      type GetUser = InferRoute<typeof getUser>;
+
+      expectTypeOf<GetUser["params"]>().toEqualTypeOf<{ id: string }>();
+      expectTypeOf<GetUser["query"]>().toEqualTypeOf<{
+         fields?: string | undefined;
+      }>();
+      expectTypeOf<GetUser["data"]>().toEqualTypeOf<{
+         id: string;
+         name: string;
+      }>();
+      expectTypeOf<InferRoute<typeof createUser>["body"]>().toEqualTypeOf<{
+         name: string;
+      }>();
+      // 호출하지 않고 타입만 검사합니다.
+      const typeOnly = () => {
+         // @ts-expect-error params는 필수 값이다
+         api("GET /users/{id}");
+         // @ts-expect-error body 타입이 맞지 않는다
+         api("POST /users", { body: { name: 1 } });
+      };
+      expect(typeOnly).toBeTypeOf("function");
+   });
+});
+
+describe("createApiCaller", () => {
+   it("path params와 query를 채워 요청하고 data만 반환해야 한다", async () => {
+      const user = await api("GET /users/{id}", {
+         params: { id: "1" },
+         query: { fields: "name" },
+      });
+
+      expect(user).toEqual({ id: "1", name: "name" });
+      expect(fakeFetch).toHaveBeenLastCalledWith(
+         "http://localhost/users/1?fields=name",
+         expect.objectContaining({ method: "GET" })
+      );
+   });
+
+   it("body를 JSON으로 전송해야 한다", async () => {
+      const created = await api("POST /users", { body: { name: "jerry" } });
+
+      expect(created).toEqual({ id: "new-jerry" });
+   });
+
+   it("2xx가 아닌 응답은 ErrorResponse를 담은 ApiClientError를 던져야 한다", async () => {
+      const error = await api("GET /users/{id}", {
+         params: { id: "404" },
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ApiClientError);
+      expect(error.status).toBe(404);
+      expect(error.response).toEqual({
+         code: 404,
+         message: "MOCKED_MESSAGE: NOT_FOUND_ERROR",
+         error: {
+            url: "http://localhost/users/404",
+            method: "GET",
+            requestId: expect.any(String),
+         },
+      });
+   });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { z } from "zod";
+import {
+   ApiClient,
+   BaseAuthStrategy,
+   createClient,
+   getClient,
+   NotFoundError,
+   registerStrategy,
+   setAuthProvider,
+   setGlobalErrorHandler,
+} from "../src";
+import { createTestClient, invoke, resetTestState } from "../src/testing";
+
+const pagination = {
+   pageIndex: "page",
+   pageSize: "size",
+   sortBy: "sort",
+   sortOrder: "order",
+};
+
+class TokenStrategy extends BaseAuthStrategy<any, unknown> {
+   async run() {
+      return { result: { session: { id: "token" } } };
+   }
+}
+
+describe("createClient", () => {
+   let admin: ApiClient;
+
+   beforeEach(() => {
+      createTestClient({ lang: "kr" });
+      admin = createClient({ lang: "en", pagination });
+   });
+
+   it("인스턴스를 반환하고 처음 만든 인스턴스를 getClient()가 사용해야 한다", async () => {
+      expect(admin).toBeInstanceOf(ApiClient);
+      expect(admin.options.timeout).toBe(10 * 1000);
+
+      const handler = getClient().handle(async () => {
+         throw new NotFoundError();
+      });
+      const res = await invoke(handler);
+
+      expect(res.body?.message).toBe("해당 데이터가 존재하지 않습니다.");
+   });
+
+   it("default: true로 만든 인스턴스는 처음 만든 인스턴스 대신 기본 인스턴스가 되어야 한다", async () => {
+      createClient({ default: true, lang: "en", pagination });
+      createClient({ lang: "kr", pagination });
+
+      const res = await invoke(
+         getClient().handle(async () => {
+            throw new NotFoundError();
+         })
+      );
+
+      expect(res.body?.message).toBe("Data not found.");
+   });
+
+   it("인스턴스마다 자신의 언어로 에러 메시지를 만들어야 한다", async () => {
+      const handler = admin.route().handle(async () => {
+         throw new NotFoundError();
+      });
+      const res = await invoke(handler);
+
+      expect(res.status).toBe(404);
+      expect(res.body?.message).toBe("Data not found.");
+   });
+
+   it("직접 지정한 에러 메시지는 그대로 사용해야 한다", async () => {
+      const handler = admin.route().handle(async () => {
+         throw new NotFoundError("게시글이 없습니다.");
+      });
+      const res = await invoke(handler);
+
+      expect(res.body?.message).toBe("게시글이 없습니다.");
+   });
+
+   it("인스턴스의 pagination 쿼리 이름을 사용해야 한다", async () => {
+      const handler = admin
+         .route()
+         .pagination()
+         .handle(async (_, ctx) => ctx.pagination);
+      const res = await invoke(handler, { query: { page: 2, size: 5 } });
+
+      expect(res.body?.data).toMatchObject({ pageIndex: 2, pageSize: 5 });
+   });
+
+   it("세션 공급자는 인스턴스별로 분리되어야 한다", async () => {
+      setAuthProvider(async () => ({ id: "user" }));
+      admin.setAuthProvider(async () => ({ id: "admin" }));
+
+      const build = (route: ReturnType<typeof getClient>) =>
+         route.auth("session").handle(async (_, ctx) => ctx.session);
+
+      expect((await invoke(build(getClient()))).body?.data).toEqual({
+         id: "user",
+      });
+      expect((await invoke(build(admin.route()))).body?.data).toEqual({
+         id: "admin",
+      });
+   });
+
+   it("전역으로 등록한 전략은 다른 인스턴스에 등록되지 않아야 한다", async () => {
+      registerStrategy("token" as any, new TokenStrategy());
+
+      const global = getClient()
+         .auth("token" as any)
+         .handle(async (_, ctx) => ctx.session);
+      const isolated = admin
+         .route()
+         .auth("token" as any)
+         .handle(async () => ({ ok: true }));
+
+      expect((await invoke(global)).body?.data).toEqual({ id: "token" });
+      expect((await invoke(isolated)).status).toBe(500);
+
+      admin.registerStrategy("token" as any, new TokenStrategy());
+      expect((await invoke(isolated)).status).toBe(200);
+   });
+
+   it("에러 핸들러는 인스턴스별로 분리되어야 한다", async () => {
+      setGlobalErrorHandler(async () => ({
+         code: 418,
+         message: "global",
+         error: {},
+      }));
+      admin.setErrorHandler(async () => ({
+         code: 503,
+         message: "admin",
+         error: {},
+      }));
+
+      const fail = async () => {
+         throw new Error("boom");
+      };
+
+      expect((await invoke(getClient().handle(fail))).body?.message).toBe(
+         "global"
+      );
+      expect((await invoke(admin.route().handle(fail))).body?.message).toBe(
+         "admin"
+      );
+   });
+
+   it("기본 인스턴스의 setErrorHandler는 전역 에러 핸들러를 설정해야 한다", async () => {
+      resetTestState();
+      const main = createClient({ lang: "kr", pagination });
+      main.setErrorHandler(async () => ({
+         code: 400,
+         message: "main",
+         error: {},
+      }));
+
+      const res = await invoke(
+         getClient()
+            .verifyQuery(z.object({ q: z.string() }))
+            .handle(async () => ({ ok: true }))
+      );
+
+      expect(res.body?.message).toBe("main");
+   });
+
+   it("invoke의 session은 지정한 인스턴스에 적용되어야 한다", async () => {
+      const handler = admin
+         .route()
+         .auth("session")
+         .handle(async (_, ctx) => ctx.session);
+
+      const res = await invoke(handler, {
+         client: admin,
+         session: { id: "admin" },
+      });
+
+      expect(res.body?.data).toEqual({ id: "admin" });
+      expect((await invoke(handler)).status).toBe(401);
+   });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+   Container,
+   getClient,
+   Inject,
+   Injectable,
+   InjectionToken,
+} from "../src";
+import { createTestClient, invoke } from "../src/testing";
+
+const CONFIG = new InjectionToken<{ prefix: string }>("CONFIG");
+
+describe("Container", () => {
+   it("singleton은 같은 인스턴스, transient는 매번 새 인스턴스를 반환해야 한다", () => {
+      class Single {}
+      class Transient {}
+      const container = new Container()
+         .register(Single)
+         .register(Transient, undefined, { scope: "transient" });
+
+      expect(container.resolve(Single)).toBe(container.resolve(Single));
+      expect(container.resolve(Transient)).not.toBe(
+         container.resolve(Transient)
+      );
+   });
+
+   it("request 범위는 scope마다 하나의 인스턴스를 만들고 scope 밖에서는 조회할 수 없어야 한다", () => {
+      class PerRequest {}
+      const container = new Container().register(PerRequest, undefined, {
+         scope: "request",
+      });
+      const first = container.createScope();
+      const second = container.createScope();
+
+      expect(first.resolve(PerRequest)).toBe(first.resolve(PerRequest));
+      expect(first.resolve(PerRequest)).not.toBe(second.resolve(PerRequest));
+      expect(() => container.resolve(PerRequest)).toThrow("request-scoped");
+   });
+
+   it("데코레이터로 등록하고 생성자 의존성을 주입해야 한다", () => {
+      const container = new Container();
+      container.register(CONFIG, { useValue: { prefix: "hello" } });
+
+      @Injectable({ container })
+      class Greeter {
+         constructor(@Inject(CONFIG) private config: { prefix: string }) {}
+
+         greet(name: string) {
+            return `${this.config.prefix} ${name}`;
+         }
+      }
+
+      @Injectable({ container, scope: "transient" })
+      class Controller {
+         constructor(@Inject(Greeter) public greeter: Greeter) {}
+      }
+
+      expect(container.resolve(Controller).greeter.greet("jerry")).toBe(
+         "hello jerry"
+      );
+   });
+
+   it("useFactory와 등록되지 않은 토큰, 순환 의존성을 처리해야 한다", () => {
+      const A = new InjectionToken<unknown>("A");
+      const B = new InjectionToken<unknown>("B");
+      const container = new Container()
+         .register(A, { useFactory: (r) => r.resolve(B) })
+         .register(B, { useFactory: (r) => r.resolve(A) });
+
+      expect(() => container.resolve(A)).toThrow(
+         "Circular dependency detected: InjectionToken(A) -> InjectionToken(B) -> InjectionToken(A)"
+      );
+      expect(() => container.resolve(CONFIG)).toThrow("is not registered");
+   });
+});
+
+describe("inject / ctx.resolve", () => {
+   it("inject()는 인스턴스를 context에 주입하고 요청이 끝나면 request 범위 인스턴스를 dispose 해야 한다", async () => {
+      const disposed: string[] = [];
+      const container = new Container();
+
+      @Injectable({ container, scope: "request" })
+      class UnitOfWork {
+         static count = 0;
+         id = ++UnitOfWork.count;
+
+         dispose() {
+            disposed.push(`uow-${this.id}`);
+         }
+      }
+
+      @Injectable({ container, scope: "request" })
+      class UserService {
+         constructor(@Inject(UnitOfWork) public uow: UnitOfWork) {}
+      }
+
+      createTestClient({ container });
+      const handler = getClient()
+         .inject({ userService: UserService })
+         .handle(async (_, ctx) => {
+            return {
+               sameUow: ctx.resolve(UnitOfWork) === ctx.userService.uow,
+               uowId: ctx.userService.uow.id,
+               disposedBefore: disposed.length,
+            };
+         });
+
+      const first = await invoke(handler);
+      const second = await invoke(handler);
+
+      expect(first.body?.data).toEqual({
+         sameUow: true,
+         uowId: 1,
+         disposedBefore: 0,
+      });
+      expect(second.body?.data).toEqual({
+         sameUow: true,
+         uowId: 2,
+         disposedBefore: 1,
+      });
+      expect(disposed).toEqual(["uow-1", "uow-2"]);
+   });
+
+   it("handler가 실패해도 request 범위 인스턴스를 dispose 해야 한다", async () => {
+      const dispose = vi.fn();
+      const container = new Container().register(
+         CONFIG,
+         { useFactory: () => ({ prefix: "x", dispose }) },
+         { scope: "request" }
+      );
+
+      createTestClient({ container });
+      const handler = getClient().handle(async (_, ctx) => {
+         ctx.resolve(CONFIG);
+         throw new Error("💥");
+      });
+
+      const res = await invoke(handler);
+
+      expect(res.status).toBe(500);
+      expect(dispose).toHaveBeenCalledTimes(1);
+   });
+
+   it("제한 시간을 넘겨도 handler 실행이 끝난 뒤에 dispose 해야 한다", async () => {
+      const dispose = vi.fn();
+      const container = new Container().register(
+         CONFIG,
+         { useFactory: () => ({ prefix: "x", dispose }) },
+         { scope: "request" }
+      );
+      let disposedWhileRunning: boolean | undefined;
+
+      createTestClient({ container, timeout: 1000 });
+      const handler = getClient().handle(async (_, ctx) => {
+         ctx.resolve(CONFIG);
+         await new Promise((resolve) => setTimeout(resolve, 2000));
+         disposedWhileRunning = dispose.mock.calls.length > 0;
+         return { ok: true };
+      });
+
+      const pending = invoke(handler);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect((await pending).status).toBe(408);
+      expect(dispose).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(disposedWhileRunning).toBe(false);
+      expect(dispose).toHaveBeenCalledTimes(1);
+   });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { z } from "zod";
+import { defineRoute, getClient } from "../src";
+import { createTestClient, invoke } from "../src/testing";
+
+beforeEach(() => {
+   createTestClient({
+      cors: {
+         origin: ["https://admin.example.com", /\.example\.org$/],
+         credentials: true,
+         exposedHeaders: ["X-Total-Count"],
+         maxAge: 600,
+      },
+   });
+});
+
+const fromOrigin = (origin: string) => ({ headers: { origin } });
+
+describe("cors", () => {
+   it("허용된 Origin의 성공 응답에 CORS 헤더를 추가해야 한다", async () => {
+      const handler = getClient().handle(async () => ({ ok: true }));
+
+      const res = await invoke(
+         handler,
+         fromOrigin("https://admin.example.com")
+      );
+
+      expect(res.headers.get("access-control-allow-origin")).toBe(
+         "https://admin.example.com"
+      );
+      expect(res.headers.get("access-control-allow-credentials")).toBe("true");
+      expect(res.headers.get("access-control-expose-headers")).toBe(
+         "X-Total-Count"
+      );
+      expect(res.headers.get("vary")).toContain("Origin");
+   });
+
+   it("에러 응답에도 CORS 헤더를 추가해야 한다", async () => {
+      const handler = getClient()
+         .verifyQuery(z.object({ id: z.string() }))
+         .handle(async () => ({ ok: true }));
+
+      const res = await invoke(handler, fromOrigin("https://api.example.org"));
+
+      expect(res.status).toBe(400);
+      expect(res.headers.get("access-control-allow-origin")).toBe(
+         "https://api.example.org"
+      );
+   });
+
+   it("허용되지 않은 Origin에는 CORS 헤더를 추가하지 않아야 한다", async () => {
+      const handler = getClient().handle(async () => ({ ok: true }));
+
+      const res = await invoke(handler, fromOrigin("https://evil.com"));
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("access-control-allow-origin")).toBeNull();
+      expect(res.headers.get("vary")).toContain("Origin");
+   });
+
+   it('자격 증명을 허용하면 origin "*"는 어떤 Origin도 허용하지 않아야 한다', async () => {
+      const handler = getClient()
+         .cors({ origin: "*", credentials: true })
+         .handle(async () => ({ ok: true }));
+
+      const res = await invoke(handler, fromOrigin("https://evil.com"));
+      const preflight = await invoke(handler, {
+         method: "OPTIONS",
+         headers: {
+            origin: "https://evil.com",
+            "access-control-request-method": "POST",
+         },
+      });
+
+      for (const { headers } of [res, preflight]) {
+         expect(headers.get("access-control-allow-origin")).toBeNull();
+         expect(headers.get("access-control-allow-credentials")).toBeNull();
+         expect(headers.get("vary")).toContain("Origin");
+      }
+   });
+
+   it("preflight 요청은 미들웨어를 실행하지 않고 204로 응답해야 한다", async () => {
+      const authSpy = vi.fn();
+      const handler = getClient()
+         .verifyHeaders(
+            z.object({ authorization: z.string() }).superRefine(authSpy)
+         )
+         .handle(async () => ({ ok: true }));
+
+      const res = await invoke(handler, {
+         method: "OPTIONS",
+         headers: {
+            origin: "https://admin.example.com",
+            "access-control-request-method": "POST",
+            "access-control-request-headers": "content-type, authorization",
+         },
+      });
+
+      expect(res.status).toBe(204);
+      expect(authSpy).not.toHaveBeenCalled();
+      expect(res.headers.get("access-control-allow-methods")).toContain("POST");
+      expect(res.headers.get("access-control-allow-headers")).toBe(
+         "content-type, authorization"
+      );
+      expect(res.headers.get("access-control-max-age")).toBe("600");
+   });
+
+   it(".cors()는 라우트별로 클라이언트 설정을 덮어써야 한다", async () => {
+      const isAllowed = vi.fn((origin: string) => origin.endsWith(".local"));
+      const handler = getClient()
+         .cors({ origin: isAllowed, credentials: false })
+         .handle(async () => ({ ok: true }));
+
+      const allowed = await invoke(handler, fromOrigin("http://app.local"));
+      const denied = await invoke(
+         handler,
+         fromOrigin("https://admin.example.com")
+      );
+
+      expect(allowed.headers.get("access-control-allow-origin")).toBe(
+         "http://app.local"
+      );
+      expect(
+         allowed.headers.get("access-control-allow-credentials")
+      ).toBeNull();
+      expect(denied.headers.get("access-control-allow-origin")).toBeNull();
+   });
+
+   it("defineRoute의 preflight는 요청한 메서드의 .cors() 설정을 따라야 한다", async () => {
+      const { OPTIONS } = defineRoute((base) => ({
+         GET: base.handle(async () => ({ ok: true })),
+         POST: base
+            .cors({ origin: "https://partner.example.net" })
+            .handle(async () => ({ ok: true })),
+      }));
+      const preflight = (method: string, origin: string) =>
+         invoke(OPTIONS, {
+            method: "OPTIONS",
+            headers: { origin, "access-control-request-method": method },
+         });
+
+      const post = await preflight("POST", "https://partner.example.net");
+      const get = await preflight("GET", "https://partner.example.net");
+      const fallback = await preflight("PUT", "https://admin.example.com");
+
+      expect(post.status).toBe(204);
+      expect(post.headers.get("access-control-allow-origin")).toBe(
+         "https://partner.example.net"
+      );
+      expect(get.headers.get("access-control-allow-origin")).toBeNull();
+      expect(fallback.headers.get("access-control-allow-origin")).toBe(
+         "https://admin.example.com"
+      );
+   });
+
+   it('origin이 "*"이고 자격 증명을 허용하지 않으면 "*"로 응답해야 한다', async () => {
+      createTestClient();
+      const handler = getClient()
+         .cors({ origin: "*" })
+         .handle(async () => ({ ok: true }));
+
+      const res = await invoke(handler, fromOrigin("https://any.com"));
+
+      expect(res.headers.get("access-control-allow-origin")).toBe("*");
+      expect(res.headers.get("vary")).toBeNull();
+   });
+});
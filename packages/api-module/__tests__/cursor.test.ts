@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { z } from "zod";
+import { encodeCursor, getClient, getMessage } from "../src";
+import { createTestClient, invoke } from "../src/testing";
+
+const cursorKey = "cursor-secret";
+
+beforeEach(() => {
+   createTestClient({ cursorKey });
+});
+
+describe("cursorPagination", () => {
+   const cursorSchema = z.object({ id: z.number() });
+
+   it("커서와 limit을 context.cursor에 주입하고 nextCursor를 만들 수 있어야 한다", async () => {
+      const rows = Array.from({ length: 10 }, (_, i) => ({ id: i + 1 }));
+
+      const handler = getClient()
+         .cursorPagination({ schema: cursorSchema })
+         .handle(async (_, ctx) => {
+            const afterId = ctx.cursor.after?.id ?? 0;
+            const items = rows
+               .filter((row) => row.id > afterId)
+               .slice(0, ctx.cursor.limit + 1);
+            return ctx.cursor.paginate(items, (row: { id: number }) => ({
+               id: row.id,
+            }));
+         });
+
+      const first = await invoke(handler, { query: { limit: 3 } });
+      const firstPage = first.body?.data;
+
+      expect(firstPage?.items).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+      expect(firstPage?.nextCursor).toEqual(expect.any(String));
+
+      const second = await invoke(handler, {
+         query: { limit: 3, cursor: firstPage?.nextCursor },
+      });
+
+      expect(second.body?.data?.items).toEqual([
+         { id: 4 },
+         { id: 5 },
+         { id: 6 },
+      ]);
+   });
+
+   it("마지막 페이지에서는 nextCursor가 null 이어야 한다", async () => {
+      const handler = getClient()
+         .cursorPagination()
+         .handle(async (_, ctx) =>
+            ctx.cursor.paginate([{ id: 1 }], (row: { id: number }) => row)
+         );
+
+      const res = await invoke(handler);
+
+      expect(res.body?.data).toEqual({ items: [{ id: 1 }], nextCursor: null });
+   });
+
+   it("limit은 maxLimit을 넘지 않아야 한다", async () => {
+      const handler = getClient()
+         .cursorPagination({ maxLimit: 50 })
+         .handle(async (_, ctx) => ({ limit: ctx.cursor.limit }));
+
+      const res = await invoke(handler, { query: { limit: 1000000 } });
+
+      expect(res.body?.data).toEqual({ limit: 50 });
+   });
+
+   it("변조된 커서는 400 에러를 반환해야 한다", async () => {
+      const handler = getClient()
+         .cursorPagination({ schema: cursorSchema })
+         .handle(async () => ({ ok: true }));
+
+      const forged = await encodeCursor({ id: 999 }, "other-secret");
+      const res = await invoke(handler, { query: { cursor: forged } });
+
+      expect(res.status).toBe(400);
+      expect(res.body?.message).toBe(getMessage("INVALID_CURSOR_ERROR"));
+   });
+
+   it("설정된 쿼리 이름을 사용하고 offset pagination과 함께 쓸 수 있어야 한다", async () => {
+      createTestClient({
+         cursorKey,
+         pagination: {
+            pageIndex: "pageIndex",
+            pageSize: "pageSize",
+            sortBy: "sortBy",
+            sortOrder: "sortOrder",
+            cursor: "c",
+            limit: "l",
+         },
+      });
+      const handler = getClient()
+         .pagination()
+         .cursorPagination({ schema: cursorSchema })
+         .handle(async (_, ctx) => ({
+            pageSize: ctx.pagination.pageSize,
+            after: ctx.cursor.after,
+            limit: ctx.cursor.limit,
+         }));
+
+      const cursor = await encodeCursor({ id: 7 }, cursorKey);
+      const res = await invoke(handler, {
+         query: { c: cursor, l: 5, pageSize: 20 },
+      });
+
+      expect(res.body?.data).toEqual({
+         pageSize: 20,
+         after: { id: 7 },
+         limit: 5,
+      });
+   });
+
+   it("서명 키가 없으면 체인 구성 시 예외가 발생해야 한다", () => {
+      createTestClient();
+
+      expect(() => getClient().cursorPagination()).toThrow();
+   });
+
+   it("내부 요청 키(hmacKey)는 커서 서명에 사용하지 않아야 한다", () => {
+      createTestClient({ hmacKey: "internal-key" });
+
+      expect(() => getClient().cursorPagination()).toThrow(
+         "cursorPagination requires cursorKey or secret"
+      );
+   });
+});
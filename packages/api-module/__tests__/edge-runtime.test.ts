@@ -0,0 +1,37 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+   createClient,
+   createRouteHandler,
+   decodeCursor,
+   encodeCursor,
+   hashETag,
+   resolveRequestId,
+} from "../src";
+
+// Edge 런타임에는 Node의 `crypto` 모듈이 없으므로, import 하면 이 파일의 로드가 실패합니다.
+vi.mock("crypto", () => {
+   throw new Error("Node crypto module is not available in the Edge runtime");
+});
+vi.mock("node:crypto", () => {
+   throw new Error("Node crypto module is not available in the Edge runtime");
+});
+
+describe("Edge runtime", () => {
+   it("handler 모듈 그래프는 Node crypto 모듈 없이 로드되어야 한다", () => {
+      expect(createRouteHandler).toBeTypeOf("function");
+      expect(createClient).toBeTypeOf("function");
+   });
+
+   it("Web Crypto로 커서, ETag, 요청 ID를 만들 수 있어야 한다", async () => {
+      const cursor = await encodeCursor({ id: 7, name: "한글" }, "secret");
+
+      expect(await decodeCursor(cursor, "secret")).toEqual({
+         id: 7,
+         name: "한글",
+      });
+      expect(await hashETag("{}")).toMatch(/^"[A-Za-z0-9_-]{27}"$/);
+      expect(resolveRequestId(new Request("http://localhost"))).toMatch(
+         /^[0-9a-f-]{36}$/
+      );
+   });
+});
@@ -10,6 +10,12 @@ import {
    UnauthorizedError,
    ForbiddenError,
    TimeoutError,
+   PayloadTooLargeError,
+   UnsupportedMediaTypeError,
+   MethodNotAllowedError,
+   TooManyRequestsError,
+   ConflictError,
+   PreconditionFailedError,
 } from "../src/error";
 
 // ✅ mock 메시지 유틸
@@ -73,6 +79,9 @@ describe("✅ handleServerError 유닛 테스트", () => {
          expect(errorInfo.message).toBe("Expected string, received number");
          expect(errorInfo.error.url).toBe("http://localhost/");
          expect(errorInfo.error.body?.name).toBe(123);
+         expect(errorInfo.error.fieldErrors).toEqual({
+            name: ["Expected string, received number"],
+         });
       }
    });
 
@@ -143,6 +152,75 @@ describe("✅ handleServerError 유닛 테스트", () => {
       expect(errorInfo.message).toBe("MOCKED_MESSAGE: TIMEOUT_ERROR");
    });
 
+   it("📌 PayloadTooLargeError는 413 코드와 기본 메시지를 반환해야 한다", async () => {
+      const req = createMockRequest("http://localhost");
+      const errorInfo = await handleServerError(
+         new PayloadTooLargeError(),
+         req
+      );
+
+      expect(errorInfo.code).toBe(413);
+      expect(errorInfo.message).toBe("MOCKED_MESSAGE: PAYLOAD_TOO_LARGE_ERROR");
+   });
+
+   it("📌 UnsupportedMediaTypeError는 415 코드와 기본 메시지를 반환해야 한다", async () => {
+      const req = createMockRequest("http://localhost");
+      const errorInfo = await handleServerError(
+         new UnsupportedMediaTypeError(),
+         req
+      );
+
+      expect(errorInfo.code).toBe(415);
+      expect(errorInfo.message).toBe(
+         "MOCKED_MESSAGE: UNSUPPORTED_MEDIA_TYPE_ERROR"
+      );
+   });
+
+   it("📌 MethodNotAllowedError는 405 코드와 기본 메시지를 반환해야 한다", async () => {
+      const req = createMockRequest("http://localhost");
+      const errorInfo = await handleServerError(
+         new MethodNotAllowedError(),
+         req
+      );
+
+      expect(errorInfo.code).toBe(405);
+      expect(errorInfo.message).toBe(
+         "MOCKED_MESSAGE: METHOD_NOT_ALLOWED_ERROR"
+      );
+   });
+
+   it("📌 TooManyRequestsError는 429 코드와 기본 메시지를 반환해야 한다", async () => {
+      const req = createMockRequest("http://localhost");
+      const errorInfo = await handleServerError(
+         new TooManyRequestsError(),
+         req
+      );
+
+      expect(errorInfo.code).toBe(429);
+      expect(errorInfo.message).toBe("MOCKED_MESSAGE: TOO_MANY_REQUESTS_ERROR");
+   });
+
+   it("📌 ConflictError는 409 코드와 기본 메시지를 반환해야 한다", async () => {
+      const req = createMockRequest("http://localhost");
+      const errorInfo = await handleServerError(new ConflictError(), req);
+
+      expect(errorInfo.code).toBe(409);
+      expect(errorInfo.message).toBe("MOCKED_MESSAGE: CONFLICT_ERROR");
+   });
+
+   it("📌 PreconditionFailedError는 412 코드와 기본 메시지를 반환해야 한다", async () => {
+      const req = createMockRequest("http://localhost");
+      const errorInfo = await handleServerError(
+         new PreconditionFailedError(),
+         req
+      );
+
+      expect(errorInfo.code).toBe(412);
+      expect(errorInfo.message).toBe(
+         "MOCKED_MESSAGE: PRECONDITION_FAILED_ERROR"
+      );
+   });
+
    it("📌 ServerError를 상속한 에러가 커스텀 메시지를 전달받으면 해당 메시지를 사용해야 한다", async () => {
       const req = createMockRequest("http://localhost", { id: 1 });
 
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { z } from "zod";
+import {
+   getClient,
+   getMessage,
+   matchesETag,
+   result,
+   withHeaders,
+} from "../src";
+import { createTestClient, invoke } from "../src/testing";
+
+beforeEach(() => {
+   createTestClient();
+});
+
+function request(headers: Record<string, string> = {}, method = "GET") {
+   return { method, path: "/posts/1", headers };
+}
+
+describe("matchesETag", () => {
+   it("목록, *, weak 비교를 지원해야 한다", () => {
+      expect(matchesETag('"a", W/"b"', '"b"')).toBe(true);
+      expect(matchesETag("*", '"x"')).toBe(true);
+      expect(matchesETag('"c"', '"b"')).toBe(false);
+      expect(matchesETag('W/"b"', '"b"', true)).toBe(false);
+   });
+});
+
+describe("etag", () => {
+   it("본문 해시로 ETag와 Cache-Control을 설정해야 한다", async () => {
+      const handler = getClient()
+         .etag()
+         .handle(async () => ({ id: 1 }));
+
+      const first = await invoke(handler, request());
+      const second = await invoke(handler, request());
+
+      expect(first.headers.get("etag")).toMatch(/^"[\w-]+"$/);
+      expect(first.headers.get("etag")).toBe(second.headers.get("etag"));
+      expect(first.headers.get("cache-control")).toBe("private, no-cache");
+   });
+
+   it("If-None-Match가 일치하면 본문 없이 304를 반환해야 한다", async () => {
+      const handler = getClient()
+         .etag({ weak: true })
+         .handle(async () => ({ id: 1 }));
+
+      const first = await invoke(handler, request());
+      const etag = first.headers.get("etag")!;
+      const res = await invoke(handler, request({ "if-none-match": etag }));
+
+      expect(etag.startsWith("W/")).toBe(true);
+      expect(res.status).toBe(304);
+      expect(res.headers.get("etag")).toBe(etag);
+      expect(res.body).toBeNull();
+   });
+
+   it("handler가 지정한 version과 lastModified를 사용해야 한다", async () => {
+      const updatedAt = new Date("2025-01-01T00:00:00Z");
+      const handler = getClient()
+         .etag()
+         .handle(async () =>
+            result({ id: 1 }, { version: 3, lastModified: updatedAt })
+         );
+
+      const res = await invoke(handler, request());
+      const notModified = await invoke(
+         handler,
+         request({ "if-modified-since": updatedAt.toUTCString() })
+      );
+      const modified = await invoke(
+         handler,
+         request({ "if-modified-since": "Tue, 31 Dec 2024 00:00:00 GMT" })
+      );
+
+      expect(res.headers.get("etag")).toBe('"3"');
+      expect(res.headers.get("last-modified")).toBe(updatedAt.toUTCString());
+      expect(notModified.status).toBe(304);
+      expect(modified.status).toBe(200);
+   });
+
+   it("handler가 지정한 Cache-Control은 유지해야 한다", async () => {
+      const handler = getClient()
+         .etag({ cacheControl: "public, max-age=60" })
+         .handle(async () =>
+            withHeaders({ id: 1 }, { "Cache-Control": "no-store" })
+         );
+
+      const res = await invoke(handler, request());
+
+      expect(res.headers.get("cache-control")).toBe("no-store");
+   });
+
+   it("에러 응답에는 ETag를 설정하지 않아야 한다", async () => {
+      const handler = getClient()
+         .etag()
+         .verifyQuery(z.object({ id: z.string() }))
+         .handle(async () => ({ id: 1 }));
+
+      const res = await invoke(handler, request({ "if-none-match": "*" }));
+
+      expect(res.status).toBe(400);
+      expect(res.headers.get("etag")).toBeNull();
+   });
+
+   it("PUT 요청의 If-Match가 현재 버전과 다르면 412를 반환해야 한다", async () => {
+      const update = vi.fn(async () => result({ id: 1 }, { version: 4 }));
+      const handler = getClient()
+         .etag({ currentVersion: async () => 3 })
+         .handle(update);
+
+      const stale = await invoke(
+         handler,
+         request({ "if-match": '"2"' }, "PUT")
+      );
+      const fresh = await invoke(
+         handler,
+         request({ "if-match": '"3"' }, "PUT")
+      );
+
+      expect(stale.status).toBe(412);
+      expect(stale.body?.message).toBe(getMessage("PRECONDITION_FAILED_ERROR"));
+      expect(fresh.status).toBe(200);
+      expect(fresh.headers.get("etag")).toBe('"4"');
+      expect(update).toHaveBeenCalledTimes(1);
+   });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { z } from "zod";
+import { getClient, getMessage } from "../src";
+import { createTestClient, invoke } from "../src/testing";
+
+beforeEach(() => {
+   createTestClient();
+});
+
+describe("verifyFormData", () => {
+   const fieldSchema = z.object({
+      title: z.string(),
+      tags: z.array(z.string()).optional(),
+   });
+
+   it("텍스트 필드와 파일을 context.form에 주입해야 한다", async () => {
+      const handler = getClient()
+         .verifyFormData(fieldSchema, {
+            files: { avatar: { maxSize: 1024, mimeTypes: ["image/*"] } },
+         })
+         .handle(async (_, ctx) => ({
+            title: ctx.form.fields.title,
+            tags: ctx.form.fields.tags,
+            fileName: ctx.form.files.avatar[0]?.name,
+         }));
+
+      const formData = new FormData();
+      formData.append("title", "hello");
+      formData.append("tags", "a");
+      formData.append("tags", "b");
+      formData.append(
+         "avatar",
+         new File(["png"], "me.png", { type: "image/png" })
+      );
+
+      const res = await invoke(handler, { body: formData });
+
+      expect(res.body?.data).toEqual({
+         title: "hello",
+         tags: ["a", "b"],
+         fileName: "me.png",
+      });
+   });
+
+   it("최대 크기를 넘는 파일은 413 에러를 반환해야 한다", async () => {
+      const handler = getClient()
+         .verifyFormData(fieldSchema, { files: { avatar: { maxSize: 2 } } })
+         .handle(async () => ({ ok: true }));
+
+      const formData = new FormData();
+      formData.append("title", "hello");
+      formData.append("avatar", new File(["too big"], "me.png"));
+
+      const res = await invoke(handler, { body: formData });
+
+      expect(res.status).toBe(413);
+      expect(res.body?.message).toBe(getMessage("PAYLOAD_TOO_LARGE_ERROR"));
+   });
+
+   it("허용 개수를 넘는 파일은 413 에러를 반환해야 한다", async () => {
+      const handler = getClient()
+         .verifyFormData(fieldSchema, { files: { photos: { maxCount: 1 } } })
+         .handle(async () => ({ ok: true }));
+
+      const formData = new FormData();
+      formData.append("title", "hello");
+      formData.append("photos", new File(["1"], "1.png"));
+      formData.append("photos", new File(["2"], "2.png"));
+
+      const res = await invoke(handler, { body: formData });
+
+      expect(res.status).toBe(413);
+   });
+
+   it("허용되지 않은 MIME 타입과 필드 검증 실패는 400 에러를 반환해야 한다", async () => {
+      const handler = getClient()
+         .verifyFormData(fieldSchema, {
+            files: { avatar: { mimeTypes: ["image/png"] } },
+         })
+         .handle(async () => ({ ok: true }));
+
+      const wrongType = new FormData();
+      wrongType.append("title", "hello");
+      wrongType.append(
+         "avatar",
+         new File(["pdf"], "doc.pdf", { type: "application/pdf" })
+      );
+
+      const typeRes = await invoke(handler, { body: wrongType });
+      const fieldRes = await invoke(handler, { body: new FormData() });
+
+      expect(typeRes.status).toBe(400);
+      expect(typeRes.body?.message).toBe(getMessage("FILE_TYPE_ERROR"));
+      expect(fieldRes.status).toBe(400);
+   });
+
+   it("선언하지 않은 파일은 Object.prototype 속성 이름이어도 무시해야 한다", async () => {
+      const handler = getClient()
+         .verifyFormData(fieldSchema, { files: { avatar: {} } })
+         .handle(async (_, ctx) => ({ files: Object.keys(ctx.form.files) }));
+
+      const formData = new FormData();
+      formData.append("title", "hello");
+      formData.append("toString", new File(["x"], "x.txt"));
+      formData.append("constructor", new File(["y"], "y.txt"));
+
+      const res = await invoke(handler, { body: formData });
+
+      expect(res.status).toBe(200);
+      expect(res.body?.data).toEqual({ files: ["avatar"] });
+   });
+
+   it("Object.prototype 속성 이름의 텍스트 필드도 문자열 값으로 읽어야 한다", async () => {
+      const handler = getClient()
+         .verifyFormData(
+            z.object({ constructor: z.string(), toString: z.array(z.string()) })
+         )
+         .handle(async (_, ctx) => ctx.form.fields);
+
+      const formData = new FormData();
+      formData.append("constructor", "a");
+      formData.append("toString", "b");
+      formData.append("toString", "c");
+
+      const res = await invoke(handler, { body: formData });
+
+      expect(res.status).toBe(200);
+      expect(res.body?.data).toEqual({
+         constructor: "a",
+         toString: ["b", "c"],
+      });
+   });
+
+   it("Content-Length가 전체 제한을 넘으면 본문을 읽지 않고 413 에러를 반환해야 한다", async () => {
+      const handler = getClient()
+         .verifyFormData(fieldSchema, {
+            files: { avatar: { maxSize: 1024 } },
+            maxBodySize: 2048,
+         })
+         .handle(async () => ({ ok: true }));
+
+      const formData = new FormData();
+      formData.append("title", "hello");
+      const readSpy = vi.spyOn(Request.prototype, "formData");
+
+      const res = await invoke(handler, {
+         body: formData,
+         headers: { "content-length": "4096" },
+      });
+
+      expect(res.status).toBe(413);
+      expect(readSpy).not.toHaveBeenCalled();
+      readSpy.mockRestore();
+   });
+
+   it("파일 규칙의 최대 크기 합계로 기본 본문 크기 제한을 계산해야 한다", async () => {
+      const handler = getClient()
+         .verifyFormData(fieldSchema, {
+            files: { photos: { maxSize: 1024, maxCount: 2 } },
+         })
+         .handle(async () => ({ ok: true }));
+
+      const formData = new FormData();
+      formData.append("title", "hello");
+      const limit = 1024 * 1024 + 2048;
+
+      const within = await invoke(handler, {
+         body: formData,
+         headers: { "content-length": String(limit) },
+      });
+      const over = await invoke(handler, {
+         body: formData,
+         headers: { "content-length": String(limit + 1) },
+      });
+
+      expect(over.status).toBe(413);
+      expect(within.status).not.toBe(413);
+   });
+});
@@ -1,9 +1,25 @@
-import { describe, it, expect, vi } from "vitest";
+import { describe, it, expect, vi, beforeEach } from "vitest";
 import { z } from "zod";
-import { createRouteHandler, PaginationParams } from "../src";
+import {
+   createRouteHandler,
+   PaginationParams,
+   setAuthProvider,
+   clearStrategy,
+   registerStrategy,
+   BaseAuthStrategy,
+   StrategyResult,
+   created,
+   paginated,
+} from "../src";
 import { NextRequest } from "next/server";
 import { ClientInstanceOptions } from "../src";
 
+declare module "../src/auth" {
+   interface StrategyResultMapExtension {
+      tenant: { tenantId: string };
+   }
+}
+
 const mockOptions: ClientInstanceOptions = {
    lang: "kr",
    pagination: {
@@ -193,3 +209,330 @@ describe("createRouteHandler", () => {
       expect(json.code).toBe(500);
    });
 });
+
+describe("createRouteHandler - auth", () => {
+   beforeEach(() => {
+      clearStrategy();
+      setAuthProvider(async () => ({ id: "user-1" }));
+   });
+
+   it("session 전략 성공 시 ctx.session이 주입되어야 한다", async () => {
+      const handler = createRouteHandler<{ id: string }, any>(mockOptions)
+         .auth<"session", { id: string }>("session")
+         .handle(async (_, ctx) => {
+            return { id: ctx.session.id };
+         });
+
+      const req = createMockRequest("http://localhost");
+      const res = await handler(req, { params: Promise.resolve({}) });
+
+      expect(await res.json()).toEqual({
+         code: 200,
+         message: "success",
+         data: { id: "user-1" },
+      });
+   });
+
+   it("인증 실패 시 전략의 errorResponse를 반환하고 핸들러를 실행하지 않아야 한다", async () => {
+      setAuthProvider(async () => null);
+      const handlerFn = vi.fn(async () => ({ ok: true }));
+
+      const handler = createRouteHandler<any, any>(mockOptions)
+         .auth("session")
+         .handle(handlerFn);
+
+      const req = createMockRequest("http://localhost");
+      const res = await handler(req, { params: Promise.resolve({}) });
+
+      expect(res.status).toBe(401);
+      expect(handlerFn).not.toHaveBeenCalled();
+   });
+
+   it("사용자 정의 전략의 결과가 context에 병합되어야 한다", async () => {
+      class TenantStrategy extends BaseAuthStrategy<"tenant"> {
+         async run(): Promise<StrategyResult<"tenant", never>> {
+            return { result: { tenantId: "t-1" } };
+         }
+      }
+      registerStrategy("tenant", new TenantStrategy());
+
+      const handler = createRouteHandler<{ tenantId: string }, any>(mockOptions)
+         .auth("tenant")
+         .handle(async (_, ctx) => ({ tenantId: ctx.tenantId }));
+
+      const req = createMockRequest("http://localhost");
+      const res = await handler(req, { params: Promise.resolve({}) });
+
+      expect((await res.json()).data).toEqual({ tenantId: "t-1" });
+   });
+
+   it("등록되지 않은 전략은 500 에러를 반환해야 한다", async () => {
+      const handler = createRouteHandler<any, any>(mockOptions)
+         .auth("unknown" as any)
+         .handle(async () => ({ ok: true }));
+
+      const req = createMockRequest("http://localhost");
+      const res = await handler(req, { params: Promise.resolve({}) });
+
+      expect(res.status).toBe(500);
+   });
+});
+
+describe("createRouteHandler - timeout", () => {
+   it("제한 시간을 넘기면 408 응답을 반환하고 signal을 abort 해야 한다", async () => {
+      let signal: AbortSignal | undefined;
+
+      const handler = createRouteHandler<any, any>(mockOptions).handle(
+         async (_, ctx) => {
+            signal = ctx.signal;
+            return new Promise(() => {});
+         }
+      );
+
+      const req = createMockRequest("http://localhost");
+      const pending = handler(req, { params: Promise.resolve({}) });
+
+      await vi.advanceTimersByTimeAsync(mockOptions.timeout!);
+      const res = await pending;
+
+      expect(res.status).toBe(408);
+      expect((await res.json()).message).toBe("MOCKED_MESSAGE: TIMEOUT_ERROR");
+      expect(signal?.aborted).toBe(true);
+   });
+
+   it("timeout(ms)으로 라우트별 제한 시간을 덮어쓸 수 있어야 한다", async () => {
+      const handler = createRouteHandler<{ ok: boolean }, any>(mockOptions)
+         .timeout(10_000)
+         .handle(async () => {
+            await new Promise((resolve) => setTimeout(resolve, 5_000));
+            return { ok: true };
+         });
+
+      const req = createMockRequest("http://localhost");
+      const pending = handler(req, { params: Promise.resolve({}) });
+
+      await vi.advanceTimersByTimeAsync(5_000);
+      const res = await pending;
+
+      expect(res.status).toBe(200);
+      expect((await res.json()).data).toEqual({ ok: true });
+   });
+});
+
+describe("createRouteHandler - verifyResponse", () => {
+   const userSchema = z.object({ id: z.string(), name: z.string() });
+
+   it("스키마에 없는 필드는 응답에서 제거되어야 한다", async () => {
+      const handler = createRouteHandler<any, any>(mockOptions)
+         .verifyResponse(userSchema)
+         .handle(async () => {
+            const user = { id: "1", name: "jerry", passwordHash: "secret" };
+            return user;
+         });
+
+      const req = createMockRequest("http://localhost");
+      const res = await handler(req, { params: Promise.resolve({}) });
+
+      expect((await res.json()).data).toEqual({ id: "1", name: "jerry" });
+   });
+
+   it("created() 등 헬퍼의 data도 검증되어야 한다", async () => {
+      const handler = createRouteHandler<any, any>(mockOptions)
+         .verifyResponse(userSchema)
+         .handle(async () => {
+            const user = { id: "1", name: "jerry", internalId: 10 };
+            return created(user);
+         });
+
+      const req = createMockRequest("http://localhost");
+      const res = await handler(req, { params: Promise.resolve({}) });
+
+      expect(res.status).toBe(201);
+      expect((await res.json()).data).toEqual({ id: "1", name: "jerry" });
+   });
+
+   it("응답이 스키마와 맞지 않으면 500 에러를 반환해야 한다", async () => {
+      const handler = createRouteHandler<any, any>(mockOptions)
+         .verifyResponse(userSchema)
+         .handle(async () => ({ id: 1 }) as any);
+
+      const req = createMockRequest("http://localhost");
+      const res = await handler(req, { params: Promise.resolve({}) });
+
+      expect(res.status).toBe(500);
+      expect((await res.json()).message).toBe("MOCKED_MESSAGE: INTERNAL_ERROR");
+   });
+
+   it("logOnly 옵션은 개발 환경에서 경고만 남기고 원본 데이터를 반환해야 한다", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      const handler = createRouteHandler<any, any>(mockOptions)
+         .verifyResponse(userSchema, { logOnly: true })
+         .handle(async () => ({ id: 1 }) as any);
+
+      const req = createMockRequest("http://localhost");
+      const res = await handler(req, { params: Promise.resolve({}) });
+
+      expect(res.status).toBe(200);
+      expect((await res.json()).data).toEqual({ id: 1 });
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+   });
+
+   it("logOnly 옵션이어도 production 에서는 500 에러를 반환해야 한다", async () => {
+      vi.stubEnv("NODE_ENV", "production");
+
+      const handler = createRouteHandler<any, any>(mockOptions)
+         .verifyResponse(userSchema, { logOnly: true })
+         .handle(async () => ({ id: 1 }) as any);
+
+      const req = createMockRequest("http://localhost");
+      const res = await handler(req, { params: Promise.resolve({}) });
+
+      expect(res.status).toBe(500);
+      vi.unstubAllEnvs();
+   });
+});
+
+describe("createRouteHandler - verifyHeaders / verifyCookies", () => {
+   it("헤더를 파싱하여 context.headers에 주입해야 한다", async () => {
+      const handler = createRouteHandler<{ tenantId: string }, any>(mockOptions)
+         .verifyHeaders(z.object({ "x-tenant-id": z.string() }))
+         .handle(async (_, ctx) => ({ tenantId: ctx.headers["x-tenant-id"] }));
+
+      const req = new NextRequest("http://localhost", {
+         headers: { "X-Tenant-Id": "tenant-1" },
+      });
+      const res = await handler(req, { params: Promise.resolve({}) });
+
+      expect((await res.json()).data).toEqual({ tenantId: "tenant-1" });
+   });
+
+   it("헤더 검증 실패 시 400 에러를 반환해야 한다", async () => {
+      const handler = createRouteHandler<any, any>(mockOptions)
+         .verifyHeaders(z.object({ "x-client-version": z.string() }))
+         .handle(async () => ({ ok: true }));
+
+      const req = new NextRequest("http://localhost");
+      const res = await handler(req, { params: Promise.resolve({}) });
+
+      expect(res.status).toBe(400);
+   });
+
+   it("쿠키를 파싱하여 context.cookies에 주입해야 한다", async () => {
+      const handler = createRouteHandler<{ theme: string }, any>(mockOptions)
+         .verifyCookies(z.object({ theme: z.enum(["light", "dark"]) }))
+         .handle(async (_, ctx) => ({ theme: ctx.cookies.theme }));
+
+      const req = new NextRequest("http://localhost", {
+         headers: { cookie: "theme=dark; other=1" },
+      });
+      const res = await handler(req, { params: Promise.resolve({}) });
+
+      expect((await res.json()).data).toEqual({ theme: "dark" });
+   });
+
+   it("쿠키 검증 실패 시 400 에러를 반환해야 한다", async () => {
+      const handler = createRouteHandler<any, any>(mockOptions)
+         .verifyCookies(z.object({ theme: z.enum(["light", "dark"]) }))
+         .handle(async () => ({ ok: true }));
+
+      const req = new NextRequest("http://localhost", {
+         headers: { cookie: "theme=blue" },
+      });
+      const res = await handler(req, { params: Promise.resolve({}) });
+
+      expect(res.status).toBe(400);
+   });
+});
+
+describe("createRouteHandler - pagination options", () => {
+   it("pageSize는 maxPageSize를 넘지 않아야 한다", async () => {
+      const handler = createRouteHandler<any, any>(mockOptions)
+         .pagination({ maxPageSize: 50 })
+         .handle(async (_, ctx) => ({ pageSize: ctx.pagination.pageSize }));
+
+      const req = new NextRequest("http://localhost?ps=1000000");
+      const res = await handler(req, { params: Promise.resolve({}) });
+
+      expect((await res.json()).data).toEqual({ pageSize: 50 });
+   });
+
+   it("sortable에 없는 sortBy는 400 에러를 반환해야 한다", async () => {
+      const handler = createRouteHandler<any, any>(mockOptions)
+         .pagination({ sortable: ["name", "createdAt"] })
+         .handle(async () => ({ ok: true }));
+
+      const req = new NextRequest("http://localhost?sb=password");
+      const res = await handler(req, { params: Promise.resolve({}) });
+
+      expect(res.status).toBe(400);
+      expect((await res.json()).message).toBe(
+         "MOCKED_MESSAGE: INVALID_SORT_ERROR"
+      );
+   });
+
+   it("sortable에 없는 defaultSort는 체인 구성 시 예외가 발생해야 한다", () => {
+      expect(() =>
+         createRouteHandler<any, any>(mockOptions).pagination({
+            sortable: ["name"],
+            // @ts-expect-error defaultSort는 sortable 중 하나여야 합니다.
+            defaultSort: "createdAt",
+         })
+      ).toThrow('defaultSort "createdAt" is not in sortable');
+   });
+
+   it("기본 페이지 크기와 정렬을 적용해야 한다", async () => {
+      const handler = createRouteHandler<any, any>(mockOptions)
+         .pagination({
+            defaultPageSize: 20,
+            sortable: ["name", "updatedAt"],
+            defaultSort: "updatedAt",
+            defaultSortOrder: "desc",
+         })
+         .handle(async (_, ctx) => {
+            const sortBy: "name" | "updatedAt" = ctx.pagination.sortBy;
+            return { ...ctx.pagination, sortBy };
+         });
+
+      const req = new NextRequest("http://localhost");
+      const res = await handler(req, { params: Promise.resolve({}) });
+
+      expect((await res.json()).data).toEqual({
+         pageIndex: 0,
+         pageSize: 20,
+         skip: 0,
+         sortBy: "updatedAt",
+         sortOrder: "desc",
+      });
+   });
+
+   it("paginated()는 envelope에 페이지 정보를 추가해야 한다", async () => {
+      const handler = createRouteHandler<{ id: number }[], any>(mockOptions)
+         .pagination()
+         .handle(async () => paginated([{ id: 3 }, { id: 4 }], 5));
+
+      const req = new NextRequest("http://localhost?pi=1&ps=2");
+      const res = await handler(req, { params: Promise.resolve({}) });
+
+      expect(await res.json()).toEqual({
+         code: 200,
+         message: "success",
+         data: [{ id: 3 }, { id: 4 }],
+         totalCount: 5,
+         totalPages: 3,
+         hasNext: true,
+      });
+   });
+
+   it("pagination() 단계 없이 paginated()를 반환하면 500 에러를 반환해야 한다", async () => {
+      const handler = createRouteHandler<{ id: number }[], any>(
+         mockOptions
+      ).handle(async () => paginated([{ id: 1 }], 1));
+
+      const req = new NextRequest("http://localhost");
+      const res = await handler(req, { params: Promise.resolve({}) });
+
+      expect(res.status).toBe(500);
+   });
+});
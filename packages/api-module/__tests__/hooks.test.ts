@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+   ClientHooks,
+   ForbiddenError,
+   getClient,
+   getMessage,
+   Logger,
+   NotFoundError,
+   setLogger,
+} from "../src";
+import { createTestClient, invoke } from "../src/testing";
+
+describe("client hooks", () => {
+   let logger: Logger;
+
+   function clientWithHooks(hooks: ClientHooks) {
+      createTestClient({ hooks });
+      setLogger(logger);
+      return getClient();
+   }
+
+   beforeEach(() => {
+      vi.setSystemTime(0);
+      logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+   });
+
+   it("onRequest와 onResponse가 순서대로 호출되어야 한다", async () => {
+      const calls: string[] = [];
+      const onResponse = vi.fn<NonNullable<ClientHooks["onResponse"]>>(
+         (_, ctx, response) => {
+            calls.push("onResponse");
+            response.headers.set(
+               "x-audit-user",
+               (ctx.session as { id: string }).id
+            );
+         }
+      );
+
+      const handler = clientWithHooks({
+         onRequest: (_, ctx) => {
+            calls.push(`onRequest:${JSON.stringify(ctx.params)}`);
+         },
+         onResponse,
+      })
+         .auth("session")
+         .handle(async () => {
+            calls.push("handler");
+            vi.setSystemTime(25);
+            return { ok: true };
+         });
+
+      const res = await invoke(handler, {
+         params: { id: "1" },
+         session: { id: "user-1" },
+      });
+
+      expect(calls).toEqual(['onRequest:{"id":"1"}', "handler", "onResponse"]);
+      expect(res.headers.get("x-audit-user")).toBe("user-1");
+      expect(onResponse.mock.calls[0]?.[3]).toBe(25);
+   });
+
+   it("onError는 에러와 함께 호출되고 기본 에러 응답은 유지되어야 한다", async () => {
+      const onError = vi.fn();
+      const onResponse = vi.fn();
+
+      const handler = clientWithHooks({ onError, onResponse }).handle(
+         async () => {
+            throw new NotFoundError();
+         }
+      );
+
+      const res = await invoke(handler);
+
+      expect(res.status).toBe(404);
+      expect(res.body?.message).toBe(getMessage("NOT_FOUND_ERROR"));
+      expect(onError).toHaveBeenCalledWith(
+         expect.any(NotFoundError),
+         expect.any(Request),
+         expect.objectContaining({ requestId: expect.any(String) })
+      );
+      expect(onResponse.mock.calls[0]?.[2].headers).toBe(res.headers);
+   });
+
+   it("onRequest에서 에러를 던지면 handler를 실행하지 않고 에러 응답을 반환해야 한다", async () => {
+      const handlerFn = vi.fn(async () => ({ ok: true }));
+      const onError = vi.fn();
+
+      const handler = clientWithHooks({
+         onRequest: () => {
+            throw new ForbiddenError();
+         },
+         onError,
+      }).handle(handlerFn);
+
+      const res = await invoke(handler);
+
+      expect(res.status).toBe(403);
+      expect(handlerFn).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledTimes(1);
+   });
+
+   it("onResponse/onError 훅의 실패는 로그만 남기고 응답에 영향을 주지 않아야 한다", async () => {
+      const handler = clientWithHooks({
+         onError: () => {
+            throw new Error("metrics down");
+         },
+         onResponse: async () => {
+            throw new Error("audit down");
+         },
+      }).handle(async () => {
+         throw new NotFoundError();
+      });
+
+      const res = await invoke(handler);
+
+      expect(res.status).toBe(404);
+      expect(logger.error).toHaveBeenCalledWith("[Hook] onError failure", {
+         error: expect.any(Error),
+      });
+      expect(logger.error).toHaveBeenCalledWith("[Hook] onResponse failure", {
+         error: expect.any(Error),
+      });
+   });
+
+   it("제한 시간으로 응답한 뒤 handler가 실패해도 onError와 에러 로그는 한 번만 남겨야 한다", async () => {
+      const onError = vi.fn();
+      createTestClient({ hooks: { onError }, timeout: 1000 });
+      setLogger(logger);
+      const handler = getClient().handle(
+         (_, ctx) =>
+            new Promise((_, reject) => {
+               ctx.signal.addEventListener("abort", () =>
+                  reject(new Error("aborted"))
+               );
+            })
+      );
+
+      const pending = invoke(handler);
+      await vi.advanceTimersByTimeAsync(1000);
+      const res = await pending;
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(res.status).toBe(408);
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(
+         vi.mocked(logger.warn).mock.calls.length +
+            vi.mocked(logger.error).mock.calls.length
+      ).toBe(1);
+   });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { z } from "zod";
+import { created, getClient, getMessage, MemoryIdempotencyStore } from "../src";
+import { createTestClient, invoke } from "../src/testing";
+
+function order(body: unknown, headers: Record<string, string> = {}) {
+   return {
+      method: "POST",
+      path: "/orders",
+      body,
+      headers: { "idempotency-key": "key-1", ...headers },
+   };
+}
+
+describe("idempotent", () => {
+   let orderId = 0;
+   const createOrder = vi.fn(async (amount: number) => ({
+      id: ++orderId,
+      amount,
+   }));
+
+   beforeEach(() => {
+      createTestClient();
+      orderId = 0;
+      createOrder.mockClear();
+   });
+
+   function orderHandler(store = new MemoryIdempotencyStore()) {
+      return getClient()
+         .verifyBody(z.object({ amount: z.number() }))
+         .idempotent({ store })
+         .handle(async (_, ctx) => created(await createOrder(ctx.body.amount)));
+   }
+
+   it("같은 키의 재요청은 처음 응답을 그대로 반환해야 한다", async () => {
+      const handler = orderHandler();
+
+      const first = await invoke(handler, order({ amount: 100 }));
+      const replay = await invoke(handler, order({ amount: 100 }));
+
+      expect(createOrder).toHaveBeenCalledTimes(1);
+      expect(replay.status).toBe(201);
+      expect(replay.headers.get("idempotent-replayed")).toBe("true");
+      expect(replay.body).toEqual(first.body);
+   });
+
+   it("같은 키로 다른 본문을 보내면 409를 반환해야 한다", async () => {
+      const handler = orderHandler();
+
+      await invoke(handler, order({ amount: 100 }));
+      const res = await invoke(handler, order({ amount: 200 }));
+
+      expect(res.status).toBe(409);
+      expect(res.body?.message).toBe(
+         getMessage("IDEMPOTENCY_KEY_REUSED_ERROR")
+      );
+      expect(createOrder).toHaveBeenCalledTimes(1);
+   });
+
+   it("처음 요청이 처리 중이면 409를 반환해야 한다", async () => {
+      let release: (() => void) | undefined;
+      const handler = getClient()
+         .idempotent()
+         .handle(async () => {
+            await new Promise<void>((resolve) => (release = resolve));
+            return { ok: true };
+         });
+
+      const pending = invoke(handler, order({ amount: 100 }));
+      await vi.waitFor(() => expect(release).toBeDefined());
+      const res = await invoke(handler, order({ amount: 100 }));
+
+      expect(res.status).toBe(409);
+      expect(res.body?.message).toBe(
+         getMessage("IDEMPOTENCY_IN_PROGRESS_ERROR")
+      );
+
+      release?.();
+      expect((await pending).status).toBe(200);
+   });
+
+   it("키는 세션과 라우트별로 구분되어야 한다", async () => {
+      const handler = getClient()
+         .auth("session")
+         .idempotent()
+         .handle(async () => createOrder(100));
+
+      await invoke(handler, { ...order({}), session: { id: "a" } });
+      await invoke(handler, { ...order({}), session: { id: "b" } });
+      await invoke(handler, { ...order({}), session: { id: "a" } });
+
+      expect(createOrder).toHaveBeenCalledTimes(2);
+   });
+
+   it("5xx 응답은 저장하지 않고 재시도를 허용해야 한다", async () => {
+      const store = new MemoryIdempotencyStore();
+      createOrder.mockRejectedValueOnce(new Error("db down"));
+      const handler = orderHandler(store);
+
+      const failed = await invoke(handler, order({ amount: 100 }));
+      const retried = await invoke(handler, order({ amount: 100 }));
+
+      expect(failed.status).toBe(500);
+      expect(retried.status).toBe(201);
+      expect(retried.headers.get("idempotent-replayed")).toBeNull();
+   });
+
+   it("Idempotency-Key 헤더가 없으면 매번 실행해야 한다", async () => {
+      const handler = orderHandler();
+
+      await invoke(handler, order({ amount: 100 }, { "idempotency-key": "" }));
+      await invoke(handler, order({ amount: 100 }, { "idempotency-key": "" }));
+
+      expect(createOrder).toHaveBeenCalledTimes(2);
+   });
+
+   it("처리 중 잠금은 lockTtl 동안만 유지하고 완료된 응답은 ttl 동안 보관해야 한다", async () => {
+      vi.setSystemTime(0);
+      const store = new MemoryIdempotencyStore();
+      const setIfAbsent = vi.spyOn(store, "setIfAbsent");
+      const set = vi.spyOn(store, "set");
+      const handler = getClient()
+         .idempotent({ store, ttl: 60_000, lockTtl: 1000 })
+         .handle(async () => createOrder(100));
+
+      await invoke(handler, order({ amount: 100 }));
+
+      expect(setIfAbsent).toHaveBeenCalledWith(
+         expect.any(String),
+         expect.objectContaining({ state: "pending" }),
+         1000
+      );
+      expect(set).toHaveBeenCalledWith(
+         expect.any(String),
+         expect.objectContaining({ state: "completed" }),
+         60_000
+      );
+
+      vi.setSystemTime(30_000);
+      const replayed = await invoke(handler, order({ amount: 100 }));
+      expect(replayed.headers.get("idempotent-replayed")).toBe("true");
+   });
+
+   it("처리 중 잠금이 만료되면 같은 키로 다시 실행할 수 있어야 한다", async () => {
+      const handler = getClient()
+         .idempotent()
+         .handle(async () => {
+            // 첫 요청은 끝나지 않습니다. (처리 도중 종료된 요청)
+            if (createOrder.mock.calls.length === 0) {
+               await createOrder(100);
+               await new Promise(() => {});
+            }
+            return createOrder(100);
+         });
+
+      void invoke(handler, order({ amount: 100 }));
+      await vi.waitFor(() => expect(createOrder).toHaveBeenCalledTimes(1));
+
+      vi.setSystemTime(Date.now() + 60_000);
+      const res = await invoke(handler, order({ amount: 100 }));
+
+      expect(res.status).toBe(200);
+      expect(createOrder).toHaveBeenCalledTimes(2);
+   });
+
+   it("보관 시간이 지나면 다시 실행해야 한다", async () => {
+      vi.setSystemTime(0);
+      const handler = getClient()
+         .idempotent({ ttl: 1000 })
+         .handle(async () => createOrder(100));
+
+      await invoke(handler, order({ amount: 100 }));
+      vi.setSystemTime(1000);
+      await invoke(handler, order({ amount: 100 }));
+
+      expect(createOrder).toHaveBeenCalledTimes(2);
+      expect(handler.meta.idempotent).toEqual({ ttl: 1000 });
+   });
+});
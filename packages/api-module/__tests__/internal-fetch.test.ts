@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { NextRequest } from "next/server";
+import {
+   createClient,
+   getClient,
+   getStrategy,
+   internalFetch,
+   RouteFunction,
+   signInternalRequest,
+} from "../src";
+import { createTestClient, invoke } from "../src/testing";
+
+const secret = "test-secret-key";
+
+const runInternal = (req: Request) =>
+   getStrategy("internal")!.run(new NextRequest(req));
+
+/**
+ * `fetch`가 네트워크 대신 주어진 라우트 핸들러를 호출하도록 바꿉니다.
+ */
+const routeFetch = (route: RouteFunction<any, any, any, any, any>) =>
+   vi.stubGlobal(
+      "fetch",
+      vi.fn(async (req: Request) =>
+         route(new NextRequest(req), { params: Promise.resolve({}) })
+      )
+   );
+
+beforeEach(() => {
+   createTestClient();
+});
+
+afterEach(() => {
+   vi.unstubAllGlobals();
+   vi.unstubAllEnvs();
+});
+
+describe("signInternalRequest", () => {
+   it("서명한 요청은 InternalStrategy를 통과해야 한다", async () => {
+      const req = await signInternalRequest(
+         new Request("http://localhost/api/jobs?force=1", { method: "POST" }),
+         secret
+      );
+
+      expect(req.headers.get("x-internal-signature")).toMatch(/^[0-9a-f]{64}$/);
+      expect(req.headers.get("x-internal-timestamp")).toBe(String(Date.now()));
+      expect((await runInternal(req)).errorResponse).toBeUndefined();
+   });
+
+   it("경로, 메서드, 키가 다르면 401을 반환해야 한다", async () => {
+      const signed = await signInternalRequest(
+         new Request("http://localhost/api/jobs", { method: "POST" }),
+         secret
+      );
+      const { headers } = signed;
+
+      const otherPath = new Request("http://localhost/api/users", {
+         method: "POST",
+         headers,
+      });
+      const otherMethod = new Request("http://localhost/api/jobs", {
+         method: "DELETE",
+         headers,
+      });
+      const otherKey = await signInternalRequest(
+         new Request("http://localhost/api/jobs", { method: "POST" }),
+         "wrong-key"
+      );
+
+      for (const req of [otherPath, otherMethod, otherKey]) {
+         expect((await runInternal(req)).errorResponse?.status).toBe(401);
+      }
+   });
+});
+
+describe("internalFetch", () => {
+   const internalRoute = () =>
+      getClient()
+         .auth("internal")
+         .handle(async (req) => ({ path: req.nextUrl.pathname }));
+
+   it("hmacKey로 서명해 요청하고 같은 키로 검증되어야 한다", async () => {
+      createTestClient({ hmacKey: "client-key" });
+      routeFetch(internalRoute());
+
+      const res = await internalFetch("http://localhost/api/jobs", {
+         method: "POST",
+      });
+
+      expect(res.status).toBe(200);
+      expect((await res.json()).data).toEqual({ path: "/api/jobs" });
+   });
+
+   it("hmacKey가 없으면 INTERNAL_SERVER_SECRET_KEY로 서명해야 한다", async () => {
+      const route = internalRoute();
+      routeFetch(route);
+
+      expect((await internalFetch("http://localhost/api/jobs")).status).toBe(
+         200
+      );
+      expect(
+         (await invoke(route, { path: "/api/jobs", internal: true })).status
+      ).toBe(200);
+   });
+
+   it("인스턴스는 자신의 hmacKey로 서명하고 검증해야 한다", async () => {
+      createTestClient({ hmacKey: "client-key" });
+      const admin = createClient({
+         lang: "kr",
+         hmacKey: "admin-key",
+         pagination: {
+            pageIndex: "pageIndex",
+            pageSize: "pageSize",
+            sortBy: "sortBy",
+            sortOrder: "sortOrder",
+         },
+      });
+      const adminRoute = admin
+         .route()
+         .auth("internal")
+         .handle(async () => ({ ok: true }));
+
+      routeFetch(adminRoute);
+      expect((await admin.internalFetch("http://localhost/admin")).status).toBe(
+         200
+      );
+      expect((await internalFetch("http://localhost/admin")).status).toBe(401);
+
+      routeFetch(internalRoute());
+      expect((await admin.internalFetch("http://localhost/api")).status).toBe(
+         401
+      );
+   });
+
+   it("서명 키가 없으면 에러를 던져야 한다", async () => {
+      vi.stubEnv("INTERNAL_SERVER_SECRET_KEY", "");
+      routeFetch(internalRoute());
+
+      await expect(internalFetch("http://localhost/api/jobs")).rejects.toThrow(
+         "internalFetch requires hmacKey"
+      );
+   });
+});
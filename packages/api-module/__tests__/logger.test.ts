@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { z } from "zod";
+import {
+   getClient,
+   getRequestId,
+   handleServerError,
+   InternalServerError,
+   Logger,
+   NotFoundError,
+   setGlobalErrorHandler,
+   setLogger,
+} from "../src";
+import { createTestClient, invoke } from "../src/testing";
+
+function createLogger(): Logger {
+   return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+}
+
+beforeEach(() => {
+   createTestClient();
+});
+
+describe("request id", () => {
+   it("x-request-id 헤더를 context와 응답 헤더에 전달해야 한다", async () => {
+      const handler = getClient().handle(async (req, ctx) => ({
+         requestId: ctx.requestId,
+         fromRequest: getRequestId(req),
+      }));
+
+      const res = await invoke(handler, {
+         headers: { "x-request-id": "req-123" },
+      });
+
+      expect(res.body?.data).toEqual({
+         requestId: "req-123",
+         fromRequest: "req-123",
+      });
+      expect(res.headers.get("x-request-id")).toBe("req-123");
+   });
+
+   it("허용 형식이 아닌 x-request-id는 사용하지 않고 새 요청 ID를 발급해야 한다", async () => {
+      const handler = getClient().handle(async (_, ctx) => ({
+         requestId: ctx.requestId,
+      }));
+
+      for (const header of ["a".repeat(129), "<script>", "id with space"]) {
+         const res = await invoke(handler, {
+            headers: { "x-request-id": header },
+         });
+         const data = res.body?.data;
+
+         expect(data?.requestId).toMatch(/^[0-9a-f-]{36}$/);
+         expect(res.headers.get("x-request-id")).toBe(data?.requestId);
+      }
+   });
+
+   it("헤더가 없으면 새 요청 ID를 발급해야 한다", async () => {
+      const handler = getClient().handle(async (_, ctx) => ({
+         requestId: ctx.requestId,
+      }));
+
+      const res = await invoke(handler);
+      const data = res.body?.data;
+
+      expect(data?.requestId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(res.headers.get("x-request-id")).toBe(data?.requestId);
+   });
+
+   it("에러 응답의 error에 요청 ID를 포함해야 한다", async () => {
+      setLogger(createLogger());
+      const handler = getClient()
+         .verifyQuery(z.object({ id: z.string() }))
+         .handle(async () => ({ ok: true }));
+
+      const res = await invoke(handler, {
+         headers: { "x-request-id": "req-400" },
+      });
+
+      expect(res.status).toBe(400);
+      expect(res.body?.error?.requestId).toBe("req-400");
+      expect(res.headers.get("x-request-id")).toBe("req-400");
+   });
+});
+
+describe("logger", () => {
+   it("5xx는 error, 4xx는 warn 레벨로 요청 정보와 함께 남겨야 한다", async () => {
+      const logger = createLogger();
+      setLogger(logger);
+
+      const handler = getClient().handle(async (req) => {
+         throw req.nextUrl.searchParams.has("missing")
+            ? new NotFoundError()
+            : new InternalServerError();
+      });
+
+      await invoke(handler, {
+         path: "/items",
+         headers: { "x-request-id": "req-500" },
+      });
+      await invoke(handler, { path: "/items", query: { missing: "" } });
+
+      expect(logger.error).toHaveBeenCalledWith("[Server Error]", {
+         url: "http://localhost/items",
+         method: "GET",
+         requestId: "req-500",
+         code: 500,
+         error: expect.any(InternalServerError),
+      });
+      expect(logger.warn).toHaveBeenCalledWith(
+         "[Server Error]",
+         expect.objectContaining({ code: 404 })
+      );
+   });
+
+   it("전역 에러 핸들러 실패도 logger로 남겨야 한다", async () => {
+      const logger = createLogger();
+      setLogger(logger);
+      setGlobalErrorHandler(async () => {
+         throw new Error("handler failure");
+      });
+
+      const errorInfo = await handleServerError(
+         new Error("💥"),
+         new Request("http://localhost")
+      );
+
+      expect(errorInfo.code).toBe(500);
+      expect(logger.error).toHaveBeenCalledWith(
+         "💥 Global error handler failure",
+         expect.objectContaining({ url: "http://localhost/" })
+      );
+   });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, expectTypeOf, beforeEach } from "vitest";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { defineMiddleware, getClient } from "../src";
+import { createTestClient, invoke } from "../src/testing";
+
+type Tenant = { id: string; name: string };
+
+const withTenant = defineMiddleware<{ tenant: Tenant }>(
+   async (req, ctx, next) => {
+      const id = req.headers.get("x-tenant-id");
+      if (!id) {
+         return NextResponse.json(
+            { code: 400, message: "tenant required" },
+            { status: 400 }
+         );
+      }
+      return next(req, { ...ctx, tenant: { id, name: `tenant-${id}` } });
+   }
+);
+
+const withFlags = defineMiddleware<
+   { flags: string[] },
+   { session: { id: string } }
+>(async (req, ctx, next) =>
+   next(req, { ...ctx, flags: [`beta:${ctx.session.id}`] })
+);
+
+const client = () => getClient<any, any, unknown, unknown, unknown>();
+
+beforeEach(() => {
+   createTestClient();
+});
+
+describe("use", () => {
+   it("미들웨어가 추가한 값을 context로 전달해야 한다", async () => {
+      const handler = client()
+         .use(withTenant)
+         .handle(async (_, ctx) => {
+            expectTypeOf(ctx.tenant).toEqualTypeOf<Tenant>();
+            return ctx.tenant;
+         });
+
+      const res = await invoke(handler, { headers: { "x-tenant-id": "t1" } });
+
+      expect(res.status).toBe(200);
+      expect(res.body?.data).toEqual({ id: "t1", name: "tenant-t1" });
+   });
+
+   it("NextResponse를 반환하면 handler를 실행하지 않아야 한다", async () => {
+      let called = false;
+      const handler = client()
+         .use(withTenant)
+         .handle(async () => {
+            called = true;
+            return { ok: true };
+         });
+
+      const res = await invoke(handler);
+
+      expect(res.status).toBe(400);
+      expect(res.body?.message).toBe("tenant required");
+      expect(called).toBe(false);
+   });
+
+   it("기본 단계, 다른 미들웨어와 순서대로 조합되어야 한다", async () => {
+      const handler = client()
+         .verifyQuery(z.object({ q: z.string() }))
+         .use(withTenant)
+         .auth<"session", { id: string }>("session")
+         .use(withFlags)
+         .handle(async (_, ctx) => ({
+            q: ctx.query.q,
+            tenant: ctx.tenant.id,
+            flags: ctx.flags,
+         }));
+
+      const res = await invoke(handler, {
+         query: { q: "hello" },
+         headers: { "x-tenant-id": "t1" },
+         session: { id: "user-1" },
+      });
+
+      expect(res.body?.data).toEqual({
+         q: "hello",
+         tenant: "t1",
+         flags: ["beta:user-1"],
+      });
+   });
+
+   it("next의 결과를 반환하지 않아도 이후 단계를 건너뛰지 않아야 한다", async () => {
+      const noReturn = [
+         // @ts-expect-error 응답을 반환하지 않는 미들웨어는 타입 에러가 발생한다
+         defineMiddleware(async () => {}),
+         // @ts-expect-error next를 호출만 하고 결과를 반환하지 않는다
+         defineMiddleware(async (req, ctx, next) => {
+            await next(req, ctx);
+         }),
+      ];
+
+      for (const middleware of noReturn) {
+         let called = false;
+         const handler = client()
+            .use(middleware)
+            .auth("session")
+            .handle(async () => {
+               called = true;
+               return { ok: true };
+            });
+
+         const res = await invoke(handler, { session: null });
+
+         expect(res.status).toBe(401);
+         expect(called).toBe(false);
+      }
+   });
+
+   it("요구하는 context 값이 없으면 타입 에러가 발생해야 한다", () => {
+      // @ts-expect-error session이 없는 라우트에는 등록할 수 없다
+      client().use(withFlags);
+   });
+});
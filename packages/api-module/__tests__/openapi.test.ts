@@ -0,0 +1,284 @@
+import { describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import {
+   createRouteHandler,
+   ClientInstanceOptions,
+   defineRoute,
+   generateOpenAPI,
+   zodToJsonSchema,
+} from "../src";
+
+vi.mock("../src/messeage", () => ({
+   getMessage: (key: string) => `MOCKED_MESSAGE: ${key}`,
+}));
+
+const mockOptions: ClientInstanceOptions = {
+   lang: "kr",
+   pagination: {
+      pageIndex: "pi",
+      pageSize: "ps",
+      sortBy: "sb",
+      sortOrder: "so",
+   },
+};
+
+describe("zodToJsonSchema", () => {
+   it("객체의 필수/선택 필드와 제약 조건을 변환해야 한다", () => {
+      const schema = z.object({
+         email: z.string().email(),
+         age: z.number().int().min(0).optional(),
+         role: z.enum(["admin", "user"]).default("user"),
+         tags: z.array(z.string()).max(5),
+         nickname: z.string().nullable(),
+      });
+
+      expect(zodToJsonSchema(schema)).toEqual({
+         type: "object",
+         properties: {
+            email: { type: "string", format: "email" },
+            age: { type: "integer", minimum: 0 },
+            role: { type: "string", enum: ["admin", "user"], default: "user" },
+            tags: { type: "array", items: { type: "string" }, maxItems: 5 },
+            nickname: { type: ["string", "null"] },
+         },
+         required: ["email", "tags", "nickname"],
+      });
+   });
+
+   it("union, literal, record, description을 변환해야 한다", () => {
+      const schema = z
+         .union([z.literal("a"), z.record(z.number())])
+         .describe("설명");
+
+      expect(zodToJsonSchema(schema)).toEqual({
+         anyOf: [
+            { const: "a" },
+            { type: "object", additionalProperties: { type: "number" } },
+         ],
+         description: "설명",
+      });
+   });
+
+   it("재귀 z.lazy 스키마는 $defs에 정의하고 $ref로 참조해야 한다", () => {
+      type Category = { name: string; children: Category[] };
+      const category: z.ZodType<Category> = z.object({
+         name: z.string(),
+         children: z.lazy(() => z.array(category)),
+      });
+
+      expect(zodToJsonSchema(category)).toEqual({
+         type: "object",
+         properties: {
+            name: { type: "string" },
+            children: { $ref: "#/$defs/Lazy1" },
+         },
+         required: ["name", "children"],
+         $defs: {
+            Lazy1: {
+               type: "array",
+               items: {
+                  type: "object",
+                  properties: {
+                     name: { type: "string" },
+                     children: { $ref: "#/$defs/Lazy1" },
+                  },
+                  required: ["name", "children"],
+               },
+            },
+         },
+      });
+   });
+});
+
+describe("generateOpenAPI", () => {
+   const userSchema = z.object({ id: z.string(), name: z.string() });
+
+   const getUser = createRouteHandler<any, any>(mockOptions)
+      .auth("session")
+      .verifyParams(z.object({ id: z.string().uuid() }))
+      .verifyResponse(userSchema)
+      .handle(async (_, ctx) => ({ id: ctx.params.id, name: "jerry" }));
+
+   const listUsers = createRouteHandler<any, any>(mockOptions)
+      .verifyQuery(z.object({ keyword: z.string().optional() }))
+      .pagination({ sortable: ["name", "createdAt"], maxPageSize: 50 })
+      .handle(async () => []);
+
+   const createUser = createRouteHandler<any, any>(mockOptions)
+      .verifyBody(z.object({ name: z.string() }))
+      .handle(async () => ({ ok: true }));
+
+   const uploadAvatar = createRouteHandler<any, any>(mockOptions)
+      .verifyFormData(z.object({ title: z.string() }), {
+         files: { avatar: { required: true } },
+      })
+      .handle(async () => ({ ok: true }));
+
+   const doc = generateOpenAPI({
+      info: { title: "Test API", version: "1.0.0" },
+      routes: {
+         "GET /users/{id}": getUser,
+         "GET /users": listUsers,
+         "POST /users": createUser,
+         "POST /users/{id}/avatar": uploadAvatar,
+      },
+   });
+
+   it("OpenAPI 3.1 기본 구조와 ErrorResponse 스키마를 포함해야 한다", () => {
+      expect(doc.openapi).toBe("3.1.0");
+      expect(doc.info).toEqual({ title: "Test API", version: "1.0.0" });
+      expect(doc.components.schemas.ErrorResponse).toMatchObject({
+         properties: {
+            error: { properties: { requestId: { type: "string" } } },
+         },
+      });
+      expect(Object.keys(doc.paths)).toEqual([
+         "/users/{id}",
+         "/users",
+         "/users/{id}/avatar",
+      ]);
+   });
+
+   it("params, 응답 envelope, 인증 정보를 문서화해야 한다", () => {
+      const operation = doc.paths["/users/{id}"]!.get as any;
+
+      expect(operation.parameters).toEqual([
+         {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string", format: "uuid" },
+         },
+      ]);
+      expect(
+         operation.responses["200"].content["application/json"].schema
+      ).toEqual({
+         type: "object",
+         properties: {
+            code: { type: "integer" },
+            message: { type: "string" },
+            data: zodToJsonSchema(userSchema),
+         },
+         required: ["code", "message"],
+      });
+      expect(operation.responses["401"].content["application/json"]).toEqual({
+         schema: { $ref: "#/components/schemas/ErrorResponse" },
+      });
+      expect(operation.security).toEqual([{ session: [] }]);
+      expect(doc.components.securitySchemes?.session).toBeDefined();
+   });
+
+   it("query와 pagination 파라미터를 설정된 이름으로 문서화해야 한다", () => {
+      const operation = doc.paths["/users"]!.get as any;
+      const names = operation.parameters.map((p: any) => p.name);
+
+      expect(names).toEqual(["keyword", "pi", "ps", "sb", "so"]);
+      expect(operation.parameters[2].schema.maximum).toBe(50);
+      expect(operation.parameters[3].schema.enum).toEqual([
+         "name",
+         "createdAt",
+      ]);
+   });
+
+   it("body와 form data를 requestBody로 문서화해야 한다", () => {
+      const create = doc.paths["/users"]!.post as any;
+      const upload = doc.paths["/users/{id}/avatar"]!.post as any;
+
+      expect(create.requestBody.content["application/json"].schema).toEqual({
+         type: "object",
+         properties: { name: { type: "string" } },
+         required: ["name"],
+      });
+      expect(create.responses["415"]).toBeDefined();
+
+      expect(upload.requestBody.content["multipart/form-data"].schema).toEqual({
+         type: "object",
+         properties: {
+            title: { type: "string" },
+            avatar: { type: "string", format: "binary" },
+         },
+         required: ["title", "avatar"],
+      });
+      expect(upload.parameters[0]).toMatchObject({ name: "id", in: "path" });
+   });
+
+   it("재귀 z.lazy 스키마는 components에 정의하고 $ref로 참조해야 한다", () => {
+      type Node = { id: string; next?: Node };
+      const node: z.ZodType<Node> = z.lazy(() =>
+         z.object({ id: z.string(), next: node.optional() })
+      );
+      const route = createRouteHandler<any, any>(mockOptions)
+         .verifyBody(node)
+         .verifyResponse(node)
+         .handle(async (_, ctx) => ctx.body);
+
+      const lazyDoc = generateOpenAPI({ routes: { "POST /nodes": route } });
+      const operation = lazyDoc.paths["/nodes"]!.post as any;
+
+      expect(operation.requestBody.content["application/json"].schema).toEqual({
+         $ref: "#/components/schemas/Lazy1",
+      });
+      expect(
+         operation.responses["200"].content["application/json"].schema
+            .properties.data
+      ).toEqual({ $ref: "#/components/schemas/Lazy1" });
+      expect(lazyDoc.components.schemas.Lazy1).toEqual({
+         type: "object",
+         properties: {
+            id: { type: "string" },
+            next: { $ref: "#/components/schemas/Lazy1" },
+         },
+         required: ["id"],
+      });
+   });
+
+   it("제한 시간이 있으면 408, defineRoute 라우트는 Allow 헤더와 405를 문서화해야 한다", () => {
+      const route = defineRoute(
+         (base) => ({ GET: base.handle(async () => ({ ok: true })) }),
+         createRouteHandler({ ...mockOptions, timeout: 1000 })
+      );
+
+      const methodDoc = generateOpenAPI({
+         routes: { "GET /items": route.GET },
+      });
+      const { responses } = methodDoc.paths["/items"]!.get as any;
+
+      expect(responses["408"].description).toBe("Request Timeout");
+      expect(responses["405"].headers.Allow.schema).toEqual({
+         type: "string",
+         const: "GET, HEAD, OPTIONS",
+      });
+      expect(
+         (doc.paths["/users"]!.get as any).responses["408"]
+      ).toBeUndefined();
+   });
+
+   it("etag 단계는 GET에 304, currentVersion이 있는 PUT에 412를 문서화해야 한다", () => {
+      const getPost = createRouteHandler<any, any>(mockOptions)
+         .etag()
+         .handle(async () => ({ id: 1 }));
+      const updatePost = createRouteHandler<any, any>(mockOptions)
+         .etag({ currentVersion: () => 1 })
+         .handle(async () => ({ id: 1 }));
+
+      expect(getPost.meta.etag).toEqual({ weak: false, ifMatch: false });
+
+      const etagDoc = generateOpenAPI({
+         routes: { "GET /posts/{id}": getPost, "PUT /posts/{id}": updatePost },
+      });
+      const get = etagDoc.paths["/posts/{id}"]!.get as any;
+      const put = etagDoc.paths["/posts/{id}"]!.put as any;
+
+      expect(get.responses["304"]).toEqual({ description: "Not Modified" });
+      expect(get.responses["200"].headers.ETag).toBeDefined();
+      expect(get.responses["412"]).toBeUndefined();
+      expect(put.responses["412"].description).toBe("Precondition Failed");
+      expect(put.responses["304"]).toBeUndefined();
+   });
+
+   it("잘못된 라우트 키는 예외가 발생해야 한다", () => {
+      expect(() =>
+         generateOpenAPI({ routes: { "/users": createUser } })
+      ).toThrow();
+   });
+});
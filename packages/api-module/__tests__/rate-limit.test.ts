@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+   applyRateLimit,
+   consumeRateLimit,
+   getClient,
+   getMessage,
+   MemoryRateLimitStore,
+   RateLimitRule,
+   RateLimitState,
+   RateLimitStore,
+   TooManyRequestsError,
+} from "../src";
+import { createTestClient, invoke } from "../src/testing";
+
+// 앞쪽 값은 클라이언트가 보낸 값, 마지막 값은 프록시가 덧붙인 실제 IP입니다.
+const fromIp = (ip = "1.1.1.1", spoofed = "9.9.9.9") => ({
+   headers: { "x-forwarded-for": `${spoofed}, ${ip}` },
+});
+
+describe("consumeRateLimit", () => {
+   beforeEach(() => {
+      vi.setSystemTime(0);
+   });
+
+   it("fixed-window는 윈도우 안에서 limit까지만 허용하고 윈도우가 지나면 초기화해야 한다", async () => {
+      const store = new MemoryRateLimitStore();
+      const options = { limit: 2, window: 1000 };
+
+      expect((await consumeRateLimit(store, "k", options)).remaining).toBe(1);
+      expect((await consumeRateLimit(store, "k", options)).remaining).toBe(0);
+
+      vi.setSystemTime(400);
+      const denied = await consumeRateLimit(store, "k", options);
+      expect(denied).toMatchObject({ allowed: false, retryAfter: 600 });
+
+      vi.setSystemTime(1000);
+      expect((await consumeRateLimit(store, "k", options)).allowed).toBe(true);
+   });
+
+   it("token-bucket은 시간에 비례해 토큰을 다시 채워야 한다", async () => {
+      const store = new MemoryRateLimitStore();
+      const options = {
+         limit: 2,
+         window: 1000,
+         algorithm: "token-bucket" as const,
+      };
+
+      await consumeRateLimit(store, "k", options);
+      await consumeRateLimit(store, "k", options);
+      const denied = await consumeRateLimit(store, "k", options);
+      expect(denied).toMatchObject({ allowed: false, retryAfter: 500 });
+
+      vi.setSystemTime(500);
+      const allowed = await consumeRateLimit(store, "k", options);
+      expect(allowed).toMatchObject({ allowed: true, remaining: 0 });
+   });
+});
+
+describe("rateLimit", () => {
+   beforeEach(() => {
+      createTestClient();
+      vi.setSystemTime(0);
+   });
+
+   it("limit을 넘으면 429와 Retry-After 헤더를 반환해야 한다", async () => {
+      const handler = getClient()
+         .rateLimit({ limit: 1, window: 60_000 })
+         .handle(async () => ({ ok: true }));
+
+      const first = await invoke(handler, fromIp());
+      const second = await invoke(handler, fromIp());
+      const other = await invoke(handler, fromIp("2.2.2.2"));
+
+      expect(first.status).toBe(200);
+      expect(first.headers.get("ratelimit-limit")).toBe("1");
+      expect(first.headers.get("ratelimit-remaining")).toBe("0");
+      expect(first.headers.get("ratelimit-reset")).toBe("60");
+      expect(first.headers.get("ratelimit-policy")).toBe("1;w=60");
+      expect(first.headers.get("retry-after")).toBeNull();
+
+      expect(second.status).toBe(429);
+      expect(second.headers.get("retry-after")).toBe("60");
+      expect(second.body?.message).toBe(getMessage("TOO_MANY_REQUESTS_ERROR"));
+
+      expect(other.status).toBe(200);
+   });
+
+   it("429는 onError 훅을 거치고 RateLimit 헤더를 포함해야 한다", async () => {
+      const onError = vi.fn();
+      createTestClient({ hooks: { onError } });
+      const handler = getClient()
+         .rateLimit({ limit: 1, window: 60_000 })
+         .handle(async () => ({ ok: true }));
+
+      await invoke(handler, fromIp());
+      const denied = await invoke(handler, fromIp());
+
+      expect(denied.status).toBe(429);
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError.mock.calls[0]![0]).toBeInstanceOf(TooManyRequestsError);
+      expect(denied.headers.get("retry-after")).toBe("60");
+      expect(denied.headers.get("ratelimit-remaining")).toBe("0");
+   });
+
+   it("클라이언트가 보낸 X-Forwarded-For 값으로 제한을 우회할 수 없어야 한다", async () => {
+      const handler = getClient()
+         .rateLimit({ limit: 1, window: 60_000 })
+         .handle(async () => ({ ok: true }));
+
+      const first = await invoke(handler, fromIp("1.1.1.1", "3.3.3.3"));
+      const spoofed = await invoke(handler, fromIp("1.1.1.1", "4.4.4.4"));
+
+      expect(first.status).toBe(200);
+      expect(spoofed.status).toBe(429);
+   });
+
+   it("trustProxy만큼 오른쪽의 프록시 값을 건너뛰고 클라이언트 IP를 찾아야 한다", async () => {
+      const handler = getClient()
+         .rateLimit({ limit: 1, window: 60_000, trustProxy: 2 })
+         .handle(async () => ({ ok: true }));
+      const viaProxies = (ip: string) => ({
+         headers: { "x-forwarded-for": `9.9.9.9, ${ip}, 10.0.0.1` },
+      });
+
+      expect((await invoke(handler, viaProxies("1.1.1.1"))).status).toBe(200);
+      expect((await invoke(handler, viaProxies("2.2.2.2"))).status).toBe(200);
+      expect((await invoke(handler, viaProxies("1.1.1.1"))).status).toBe(429);
+   });
+
+   it("key 함수에서 auth 단계의 session을 사용할 수 있어야 한다", async () => {
+      const handler = getClient()
+         .auth<"session", { id: string }>("session")
+         .rateLimit({
+            key: (_, ctx) => ctx.session.id,
+            limit: 1,
+            window: 1000,
+         })
+         .handle(async () => ({ ok: true }));
+
+      const call = (id: string) => invoke(handler, { session: { id } });
+
+      expect((await call("a")).status).toBe(200);
+      expect((await call("b")).status).toBe(200);
+      expect((await call("a")).status).toBe(429);
+   });
+
+   it("동시에 들어온 요청도 limit까지만 허용해야 한다", async () => {
+      const handler = getClient()
+         .rateLimit({ limit: 1, window: 60_000 })
+         .handle(async () => ({ ok: true }));
+
+      const responses = await Promise.all(
+         Array.from({ length: 5 }, () => invoke(handler, fromIp()))
+      );
+
+      expect(responses.map((res) => res.status).sort()).toEqual([
+         200, 429, 429, 429, 429,
+      ]);
+   });
+
+   it("사용자 정의 저장소를 사용할 수 있어야 한다", async () => {
+      const data = new Map<string, RateLimitState>();
+      const store: RateLimitStore = {
+         consume: vi.fn(async (key: string, rule: RateLimitRule) => {
+            const { state, result } = applyRateLimit(
+               data.get(key),
+               rule,
+               Date.now()
+            );
+            data.set(key, state);
+            return result;
+         }),
+      };
+
+      const handler = getClient()
+         .rateLimit({ key: () => "login", limit: 5, window: 1000, store })
+         .handle(async () => ({ ok: true }));
+
+      await invoke(handler, fromIp());
+
+      expect(store.consume).toHaveBeenCalledWith("login", {
+         limit: 5,
+         window: 1000,
+         algorithm: "fixed-window",
+      });
+      expect(data.get("login")).toEqual({ count: 1, resetAt: 1000 });
+      expect(handler.meta.rateLimit).toEqual({
+         limit: 5,
+         window: 1000,
+         algorithm: "fixed-window",
+      });
+   });
+});
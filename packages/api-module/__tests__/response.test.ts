@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { NextResponse } from "next/server";
+import {
+   created,
+   getClient,
+   noContent,
+   result,
+   withCookies,
+   withHeaders,
+} from "../src";
+import { createTestClient, invoke } from "../src/testing";
+
+beforeEach(() => {
+   createTestClient();
+});
+
+describe("response helpers", () => {
+   it("created()는 201과 Location 헤더로 응답해야 한다", async () => {
+      const handler = getClient().handle(async () =>
+         created({ id: "1" }, { location: "/users/1" })
+      );
+
+      const res = await invoke(handler);
+
+      expect(res.status).toBe(201);
+      expect(res.headers.get("location")).toBe("/users/1");
+      expect(res.body).toEqual({
+         code: 201,
+         message: "success",
+         data: { id: "1" },
+      });
+   });
+
+   it("noContent()는 본문 없이 204로 응답해야 한다", async () => {
+      const handler = getClient().handle(async () => noContent());
+
+      const res = await invoke(handler);
+
+      expect(res.status).toBe(204);
+      expect(res.body).toBeNull();
+   });
+
+   it("본문을 가질 수 없는 상태 코드는 data가 있어도 본문 없이 응답해야 한다", async () => {
+      for (const status of [204, 205, 304]) {
+         const handler = getClient().handle(async () =>
+            result({ id: "1" }, { status, headers: { "X-Status": "kept" } })
+         );
+
+         const res = await invoke(handler);
+
+         expect(res.status).toBe(status);
+         expect(res.body).toBeNull();
+         expect(res.headers.get("x-status")).toBe("kept");
+      }
+   });
+
+   it("withHeaders(), withCookies()는 헤더와 쿠키를 설정해야 한다", async () => {
+      const headerHandler = getClient().handle(async () =>
+         withHeaders({ ok: true }, { "Cache-Control": "no-store" })
+      );
+      const cookieHandler = getClient().handle(async () =>
+         withCookies({ ok: true }, [
+            { name: "token", value: "abc", httpOnly: true },
+         ])
+      );
+
+      const headerRes = await invoke(headerHandler);
+      const cookieRes = await invoke(cookieHandler);
+
+      expect(headerRes.headers.get("cache-control")).toBe("no-store");
+      expect(cookieRes.headers.get("set-cookie")).toContain("token=abc");
+      expect(cookieRes.body?.data).toEqual({ ok: true });
+   });
+
+   it("NextResponse를 반환하면 그대로 전달되어야 한다", async () => {
+      const handler = getClient().handle(async () =>
+         NextResponse.redirect("http://localhost/login")
+      );
+
+      const res = await invoke(handler);
+
+      expect(res.status).toBe(307);
+      expect(res.headers.get("location")).toBe("http://localhost/login");
+   });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import {
+   createRouteHandler,
+   ClientInstanceOptions,
+   defineRoute,
+   created,
+} from "../src";
+
+vi.mock("../src/messeage", () => ({
+   getMessage: (key: string) => `MOCKED_MESSAGE: ${key}`,
+}));
+
+const mockOptions: ClientInstanceOptions = {
+   lang: "kr",
+   pagination: {
+      pageIndex: "pi",
+      pageSize: "ps",
+      sortBy: "sb",
+      sortOrder: "so",
+   },
+};
+
+const paramsSchema = z.object({ id: z.string() });
+
+const route = defineRoute((base) => {
+   const item = base.verifyParams(paramsSchema);
+   return {
+      GET: item.handle(async (_, ctx) => ({ id: ctx.params.id })),
+      POST: item
+         .verifyBody(z.object({ name: z.string() }))
+         .handle(async (_, ctx) =>
+            created({ id: ctx.params.id, name: ctx.body.name })
+         ),
+   };
+}, createRouteHandler(mockOptions));
+
+function call(method: string, body?: unknown) {
+   const req = new NextRequest("http://localhost/items/1", {
+      method,
+      ...(body ? { body: JSON.stringify(body) } : {}),
+      headers: { "content-type": "application/json" },
+   });
+   const handler = route[method as keyof typeof route];
+   return handler(req, { params: Promise.resolve({ id: "1" }) });
+}
+
+describe("defineRoute", () => {
+   it("정의한 메서드는 공통 체인을 거쳐 실행되어야 한다", async () => {
+      const getRes = await call("GET");
+      const postRes = await call("POST", { name: "jerry" });
+
+      expect((await getRes.json()).data).toEqual({ id: "1" });
+      expect(postRes.status).toBe(201);
+      expect((await postRes.json()).data).toEqual({ id: "1", name: "jerry" });
+   });
+
+   it("정의하지 않은 메서드는 Allow 헤더와 함께 405를 반환해야 한다", async () => {
+      const res = await call("DELETE");
+
+      expect(res.status).toBe(405);
+      expect(res.headers.get("allow")).toBe("GET, POST, HEAD, OPTIONS");
+      expect((await res.json()).message).toBe(
+         "MOCKED_MESSAGE: METHOD_NOT_ALLOWED_ERROR"
+      );
+   });
+
+   it("OPTIONS는 Allow 헤더와 함께 204를 반환해야 한다", async () => {
+      const res = await call("OPTIONS");
+
+      expect(res.status).toBe(204);
+      expect(res.headers.get("allow")).toBe("GET, POST, HEAD, OPTIONS");
+   });
+
+   it("HEAD는 GET 결과를 본문 없이 반환해야 한다", async () => {
+      const res = await call("HEAD");
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("content-type")).toContain("application/json");
+      expect(await res.text()).toBe("");
+      expect(route.HEAD.meta.params).toBe(paramsSchema);
+   });
+
+   it("HEAD는 훅을 한 번만 실행해야 한다", async () => {
+      const onRequest = vi.fn();
+      const onResponse = vi.fn();
+      const hooked = defineRoute(
+         (base) => ({ GET: base.handle(async () => ({ ok: true })) }),
+         createRouteHandler({
+            ...mockOptions,
+            hooks: { onRequest, onResponse },
+         })
+      );
+
+      const res = await hooked.HEAD(
+         new NextRequest("http://localhost/items", { method: "HEAD" }),
+         { params: Promise.resolve({}) }
+      );
+
+      expect(res.status).toBe(200);
+      expect(onRequest).toHaveBeenCalledTimes(1);
+      expect(onResponse).toHaveBeenCalledTimes(1);
+   });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { z } from "zod";
+import {
+   container,
+   created,
+   getClient,
+   getMessage,
+   InjectionToken,
+   setGlobalErrorHandler,
+} from "../src";
+import {
+   createInternalHeaders,
+   createTestClient,
+   invoke,
+   mockSession,
+   resetTestState,
+} from "../src/testing";
+
+beforeEach(() => {
+   createTestClient({ lang: "en" });
+});
+
+describe("invoke", () => {
+   it("params, query를 전달하고 상태 코드, 본문, 헤더를 반환해야 한다", async () => {
+      const handler = getClient()
+         .verifyParams(z.object({ id: z.string() }))
+         .verifyQuery(z.object({ expand: z.string().optional() }))
+         .handle(async (_, ctx) => ({
+            id: ctx.params.id,
+            expand: ctx.query.expand,
+         }));
+
+      const res = await invoke(handler, {
+         params: { id: "1" },
+         query: { expand: "author" },
+         headers: { "x-request-id": "req-1" },
+      });
+
+      expect(res.status).toBe(200);
+      expect(res.body?.data).toEqual({ id: "1", expand: "author" });
+      expect(res.headers.get("x-request-id")).toBe("req-1");
+   });
+
+   it("body가 있으면 JSON POST 요청으로 보내야 한다", async () => {
+      const handler = getClient()
+         .verifyBody(z.object({ name: z.string() }))
+         .handle(async (req, ctx) =>
+            created({ method: req.method, name: ctx.body.name })
+         );
+
+      const res = await invoke(handler, { body: { name: "jerry" } });
+
+      expect(res.status).toBe(201);
+      expect(res.body?.data).toEqual({ method: "POST", name: "jerry" });
+   });
+
+   it("에러 응답은 ErrorResponse 본문을 반환해야 한다", async () => {
+      const handler = getClient()
+         .auth("session")
+         .handle(async () => ({ ok: true }));
+
+      const res = await invoke(handler);
+
+      expect(res.status).toBe(401);
+      expect(res.body?.message).toBe("UNAUTHORIZED_ERROR");
+   });
+
+   it("session 옵션은 이 요청 동안만 세션을 주입해야 한다", async () => {
+      const handler = getClient()
+         .auth<"session", { id: string }>("session")
+         .handle(async (_, ctx) => ({ userId: ctx.session.id }));
+
+      const withSession = await invoke(handler, { session: { id: "user-1" } });
+      const withoutSession = await invoke(handler);
+
+      expect(withSession.body?.data).toEqual({ userId: "user-1" });
+      expect(withoutSession.status).toBe(401);
+   });
+
+   it("internal 옵션은 InternalStrategy가 검증할 수 있는 서명을 추가해야 한다", async () => {
+      const handler = getClient()
+         .auth("internal")
+         .handle(async () => ({ ok: true }));
+
+      const signed = await invoke(handler, {
+         method: "DELETE",
+         path: "/internal/jobs/1",
+         internal: true,
+      });
+      const wrongSecret = await invoke(handler, {
+         internal: { secret: "wrong" },
+      });
+      const unsigned = await invoke(handler);
+
+      expect(signed.status).toBe(200);
+      expect(wrongSecret.status).toBe(401);
+      expect(unsigned.status).toBe(401);
+   });
+});
+
+describe("test helpers", () => {
+   it("mockSession은 이후 요청의 세션을 지정해야 한다", async () => {
+      mockSession({ id: "user-2" });
+      const handler = getClient()
+         .auth<"session", { id: string }>("session")
+         .handle(async (_, ctx) => ({ userId: ctx.session.id }));
+
+      const res = await invoke(handler);
+
+      expect(res.body?.data).toEqual({ userId: "user-2" });
+   });
+
+   it("createInternalHeaders는 서명과 타임스탬프 헤더를 만들어야 한다", async () => {
+      const headers = await createInternalHeaders("GET", "/internal");
+
+      expect(headers["x-internal-signature"]).toMatch(/^[0-9a-f]{64}$/);
+      expect(headers["x-internal-timestamp"]).toBe(String(Date.now()));
+   });
+
+   it("resetTestState는 클라이언트와 메시지 상태를 초기화해야 한다", () => {
+      expect(getMessage("NOT_FOUND_ERROR")).toBe("Data not found.");
+
+      resetTestState();
+
+      expect(() => getClient()).toThrow("API module client not found");
+      expect(() => getMessage("NOT_FOUND_ERROR")).toThrow();
+
+      createTestClient();
+      expect(getMessage("NOT_FOUND_ERROR")).toBe(
+         "해당 데이터가 존재하지 않습니다."
+      );
+   });
+
+   it("resetTestState는 전역 에러 핸들러와 기본 컨테이너를 초기화해야 한다", async () => {
+      const token = new InjectionToken<number>("value");
+      container.register(token, { useValue: 1 });
+      setGlobalErrorHandler(async () => ({
+         code: 418,
+         message: "custom",
+         error: null,
+      }));
+
+      resetTestState();
+      createTestClient({ lang: "en" });
+
+      const res = await invoke(
+         getClient().handle(async () => {
+            throw new Error("boom");
+         })
+      );
+      expect(res.status).toBe(500);
+      expect(container.has(token)).toBe(false);
+   });
+});
@@ -1,2 +1,30 @@
 import config from "@jerry-sb/rollup-config/base.mjs";
-export default config("src/index.ts");
+
+const base = config("src/index.ts");
+
+// testing 엔트리가 본 모듈과 같은 상태(client, 인증 전략 등)를 공유하도록 한 번에 번들링합니다.
+// caller 엔트리는 프론트엔드용으로 next/server 등 서버 모듈을 import 하지 않습니다.
+export default {
+   ...base,
+   input: {
+      index: "src/index.ts",
+      caller: "src/caller.ts",
+      testing: "src/testing.ts",
+   },
+   output: [
+      {
+         dir: "dist",
+         format: "cjs",
+         entryFileNames: "[name].cjs",
+         chunkFileNames: "[name]-[hash].cjs",
+         sourcemap: true,
+      },
+      {
+         dir: "dist",
+         format: "esm",
+         entryFileNames: "[name].mjs",
+         chunkFileNames: "[name]-[hash].mjs",
+         sourcemap: true,
+      },
+   ],
+};
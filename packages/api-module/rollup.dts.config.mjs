@@ -1,2 +1,21 @@
 import config from "@jerry-sb/rollup-config/base-dts.mjs";
-export default config();
+
+const base = config();
+
+// 엔트리들이 같은 타입 선언(ApiClient, AuthRegistry 등)을 공유 chunk에서 참조하도록 한 번에 번들링합니다.
+export default {
+   ...base,
+   input: {
+      index: "src/index.ts",
+      caller: "src/caller.ts",
+      testing: "src/testing.ts",
+   },
+   output: [
+      {
+         dir: "dist",
+         format: "es",
+         entryFileNames: "[name].d.ts",
+         chunkFileNames: "[name]-[hash].d.ts",
+      },
+   ],
+};
@@ -0,0 +1,135 @@
+/**
+ * @file action.ts
+ * @author 심명보 (https://github.com/jerry-sb)
+ * @description Server Action에서 라우트 체인(검증, 인증, 에러 처리)을 실행하기 위한 요청/결과 변환 유틸
+ *
+ * 사용법
+ * "use server";
+ *
+ * export const createPost = getClient()
+ *    .auth("session")
+ *    .verifyBody(z.object({ title: z.string().min(1) }))
+ *    .action(async (ctx) => db.post.create({ data: ctx.body }));
+ *
+ * const result = await createPost(formData);
+ * if (!result.ok) console.log(result.error.error.fieldErrors?.title);
+ */
+
+import { headers } from "next/headers";
+import { NextRequest } from "next/server";
+import type { ErrorResponse } from "./error";
+
+export type ActionResult<T> =
+   | { ok: true; data: T }
+   | { ok: false; error: ErrorResponse };
+
+/**
+ * action의 입력 타입입니다. `verifyBody()`를 사용했다면 스키마 타입 또는 `FormData`를 받습니다.
+ */
+export type ActionInput<B> = [B] extends [{ body: infer X }]
+   ? X | FormData
+   : Record<string, unknown> | FormData | void;
+
+export type ServerAction<I, T> = (input: I) => Promise<ActionResult<T>>;
+
+/**
+ * 값이 여러 개인 키는 배열로 모아 `FormData`를 객체로 변환합니다.
+ */
+export function formDataToObject(formData: FormData): Record<string, unknown> {
+   const values: Record<string, unknown> = {};
+   for (const key of new Set(formData.keys())) {
+      const all = formData.getAll(key);
+      values[key] = all.length > 1 ? all : all[0];
+   }
+   return values;
+}
+
+function objectToFormData(input: unknown): FormData {
+   const formData = new FormData();
+   Object.entries(input ?? {}).forEach(([key, value]) => {
+      const values = Array.isArray(value) ? value : [value];
+      values
+         .filter((v) => v !== undefined && v !== null)
+         .forEach((v) =>
+            formData.append(key, v instanceof Blob ? v : String(v))
+         );
+   });
+   return formData;
+}
+
+/**
+ * 현재 Server Action 요청의 헤더(쿠키 포함)를 읽습니다.
+ * 요청 범위 밖(테스트, 스크립트 등)에서는 빈 헤더를 반환합니다.
+ */
+async function readActionHeaders(): Promise<Headers> {
+   try {
+      return new Headers(await headers());
+   } catch {
+      return new Headers();
+   }
+}
+
+/**
+ * action 입력으로 라우트 체인에 전달할 POST 요청을 만듭니다.
+ * `verifyFormData()`를 사용하면 multipart 본문으로, 그 외에는 JSON 본문으로 전달합니다.
+ *
+ * @param multipart - true 이면 입력을 `FormData`로 전달합니다.
+ */
+export async function createActionRequest(
+   input: unknown,
+   multipart: boolean
+): Promise<NextRequest> {
+   const requestHeaders = await readActionHeaders();
+   requestHeaders.delete("content-type");
+   requestHeaders.delete("content-length");
+
+   const url = new URL("/", requestHeaders.get("origin") ?? "http://localhost");
+
+   let body: BodyInit | undefined;
+   if (multipart) {
+      body = input instanceof FormData ? input : objectToFormData(input);
+   } else if (input !== undefined) {
+      body = JSON.stringify(
+         input instanceof FormData ? formDataToObject(input) : input
+      );
+      requestHeaders.set("content-type", "application/json");
+   }
+
+   return new NextRequest(url, {
+      method: "POST",
+      headers: requestHeaders,
+      body,
+   });
+}
+
+/**
+ * 라우트 체인의 응답을 action 결과로 변환합니다.
+ * 성공 응답은 envelope의 `data`를, 에러 응답은 `ErrorResponse` 본문을 반환합니다.
+ * 인증 전략처럼 `error` 필드 없이 `{ code, message }`만 반환한 응답은 `error`를 요청 정보로 채웁니다.
+ */
+export async function readActionResult<T>(
+   response: Response,
+   req: NextRequest
+): Promise<ActionResult<T>> {
+   const text = await response.text();
+   let body: { data?: T } | Partial<ErrorResponse> | null = null;
+   try {
+      body = text ? JSON.parse(text) : null;
+   } catch {
+      body = null;
+   }
+
+   if (response.ok) {
+      return { ok: true, data: (body as { data?: T } | null)?.data as T };
+   }
+
+   const errorBody = (body ?? {}) as Partial<ErrorResponse>;
+   return {
+      ok: false,
+      error: {
+         code: errorBody.code ?? response.status,
+         message: errorBody.message ?? response.statusText,
+         error: errorBody.error ?? { url: req.url, method: req.method },
+      },
+   };
+}
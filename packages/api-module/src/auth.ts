@@ -5,9 +5,9 @@
  * @created 2025-04-22
  */
 
-import { createHmac } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
-import { getMessage } from "./messeage";
+import { getMessage, MessageGetter, MessageKey } from "./messeage";
+import { fromHex, hmacSign, hmacVerify, toHex } from "./web-crypto";
 
 /**
  * ✅ 유저 확장 가능한 인터페이스
@@ -44,6 +44,17 @@ export type StrategyResultMap<TSession> = {
    "internal-session": { session: TSession | null };
 } & StrategyResultMapExtension;
 
+/**
+ * 인증 전략 실행 후 context에 병합되는 값의 타입입니다.
+ * 결과가 없는 전략(`internal`)은 context를 확장하지 않습니다.
+ */
+export type StrategyContext<
+   A extends Auth,
+   TSession,
+> = StrategyResultMap<TSession>[A] extends undefined
+   ? unknown
+   : NonNullable<StrategyResultMap<TSession>[A]>;
+
 export type StrategyResult<A extends Auth, TSession> = {
    result?: StrategyResultMap<TSession>[A];
    errorResponse?: NextResponse<{ code: number; message: string }>;
@@ -60,20 +71,80 @@ export type AuthProvider<TSession> = (
    req: NextRequest
 ) => Promise<TSession | null>;
 
-let authProvider: AuthProvider<any> = async () => null;
-
 /**
- * 외부에서 사용할 세션 공급자 등록 함수
+ * 외부에서 사용할 세션 공급자 등록 함수 (기본 레지스트리)
  */
 export function setAuthProvider<TSession>(fn: AuthProvider<TSession>) {
-   authProvider = fn;
+   authRegistry.setAuthProvider(fn);
 }
 
 /**
- * 현재 등록된 세션 공급자 반환
+ * 현재 등록된 세션 공급자 반환 (기본 레지스트리)
  */
 export function getAuthProvider<TSession>(): AuthProvider<TSession> {
-   return authProvider;
+   return authRegistry.getAuthProvider<TSession>();
+}
+
+/* -------------------------------------------------------------------------- */
+/*                          ✅ 내부 요청 서명 (InternalStrategy)               */
+/* -------------------------------------------------------------------------- */
+
+export const INTERNAL_SIGNATURE_HEADER = "x-internal-signature";
+export const INTERNAL_TIMESTAMP_HEADER = "x-internal-timestamp";
+
+/** 내부 요청 서명의 허용 시간 차이 (ms) */
+export const INTERNAL_SIGNATURE_TOLERANCE = 30 * 1000;
+
+/**
+ * 내부 요청 서명을 생성합니다. (`timestamp:METHOD:pathname`의 HMAC-SHA256 hex)
+ */
+export async function createInternalSignature(
+   timestamp: string,
+   method: string,
+   pathname: string,
+   secret: string
+): Promise<string> {
+   return toHex(await hmacSign(secret, `${timestamp}:${method}:${pathname}`));
+}
+
+/**
+ * 내부 요청 서명을 검증합니다. 비교는 `crypto.subtle.verify`로 상수 시간에 수행됩니다.
+ *
+ * @returns 서명이 일치하면 true (hex 형식이 아니거나 키를 만들 수 없으면 false)
+ */
+export async function verifyInternalSignature(
+   signature: string,
+   timestamp: string,
+   method: string,
+   pathname: string,
+   secret: string
+): Promise<boolean> {
+   const bytes = fromHex(signature);
+   if (!bytes) return false;
+   return hmacVerify(secret, bytes, `${timestamp}:${method}:${pathname}`);
+}
+
+/**
+ * 요청에 내부 요청 서명 헤더(`x-internal-signature`, `x-internal-timestamp`)를 추가합니다.
+ * 서명 대상은 요청의 메서드와 URL의 pathname이며, 전달한 요청 객체의 헤더를 직접 수정합니다.
+ *
+ * @param req - 서명할 요청 (`new Request(url, init)`)
+ * @param secret - 서명 키 (`InternalStrategy`가 검증에 사용하는 키와 같아야 합니다)
+ * @returns 헤더가 추가된 같은 요청 객체
+ */
+export async function signInternalRequest<R extends Request>(
+   req: R,
+   secret: string
+): Promise<R> {
+   const timestamp = String(Date.now());
+   const { pathname } = new URL(req.url);
+
+   req.headers.set(
+      INTERNAL_SIGNATURE_HEADER,
+      await createInternalSignature(timestamp, req.method, pathname, secret)
+   );
+   req.headers.set(INTERNAL_TIMESTAMP_HEADER, timestamp);
+   return req;
 }
 
 /* -------------------------------------------------------------------------- */
@@ -88,16 +159,41 @@ export function getAuthProvider<TSession>(): AuthProvider<TSession> {
  * @typeParam TSession - 세션 객체 타입 (예: `Session`, `User`, 등)
  */
 export abstract class BaseAuthStrategy<A extends Auth, TSession = unknown> {
+   private registry?: AuthRegistry;
+
    abstract run(req: NextRequest): Promise<StrategyResult<A, TSession>>;
 
    /**
-    * 현재 등록된 authProvider를 통해 세션 정보를 가져옵니다.
+    * 전략이 등록된 레지스트리를 연결합니다. `AuthRegistry.register()`가 호출합니다.
+    * 같은 전략 객체를 여러 클라이언트에 등록하면 마지막 레지스트리를 사용하므로,
+    * 클라이언트마다 새 객체를 등록하세요.
+    */
+   bind(registry: AuthRegistry) {
+      this.registry = registry;
+   }
+
+   /**
+    * 등록된 레지스트리의 authProvider를 통해 세션 정보를 가져옵니다.
     */
    protected async getSession(req: NextRequest): Promise<TSession | null> {
-      const auth = getAuthProvider<TSession>();
+      const auth = (this.registry ?? authRegistry).getAuthProvider<TSession>();
       return await auth(req);
    }
 
+   /**
+    * 등록된 레지스트리(클라이언트)의 언어로 메시지를 조회합니다.
+    */
+   protected getMessage(key: MessageKey): string {
+      return (this.registry ?? authRegistry).getMessage(key);
+   }
+
+   /**
+    * 내부 요청 서명 키를 반환합니다. (`hmacKey` 또는 `INTERNAL_SERVER_SECRET_KEY` 환경 변수)
+    */
+   protected getInternalSecret(): string | undefined {
+      return (this.registry ?? authRegistry).getInternalSecret();
+   }
+
    /**
     * 인증 실패 시 공통으로 사용하는 응답 객체 반환
     */
@@ -107,24 +203,33 @@ export abstract class BaseAuthStrategy<A extends Auth, TSession = unknown> {
       return NextResponse.json({ code: 401, message }, { status: 401 });
    }
 
-   protected verifyInternalRequest(req: NextRequest, secret: string): boolean {
-      const signature = req.headers.get("x-internal-signature");
-      const timestamp = req.headers.get("x-internal-timestamp");
-      if (!signature || !timestamp) return false;
+   /**
+    * 내부 요청 서명 헤더를 검증합니다. Web Crypto를 사용하므로 Node/Edge 모두에서 동작합니다.
+    * 비동기 함수이므로 반드시 `await` 해야 합니다.
+    */
+   protected async verifyInternalRequest(
+      req: NextRequest,
+      secret: string | undefined
+   ): Promise<boolean> {
+      const signature = req.headers.get(INTERNAL_SIGNATURE_HEADER);
+      const timestamp = req.headers.get(INTERNAL_TIMESTAMP_HEADER);
+      if (!signature || !timestamp || !secret) return false;
 
       const timeDiff = Math.abs(Date.now() - Number(timestamp));
-      if (timeDiff > 30000) return false;
-
-      const expected = createHmac("sha256", secret)
-         .update(`${timestamp}:${req.method}:${req.nextUrl.pathname}`)
-         .digest("hex");
+      if (!(timeDiff <= INTERNAL_SIGNATURE_TOLERANCE)) return false;
 
-      return expected === signature;
+      return verifyInternalSignature(
+         signature,
+         timestamp,
+         req.method,
+         req.nextUrl.pathname,
+         secret
+      );
    }
 
    protected existInternalHeader(req: NextRequest): boolean {
-      const signature = req.headers.get("x-internal-signature");
-      const timestamp = req.headers.get("x-internal-timestamp");
+      const signature = req.headers.get(INTERNAL_SIGNATURE_HEADER);
+      const timestamp = req.headers.get(INTERNAL_TIMESTAMP_HEADER);
       return Boolean(signature && timestamp);
    }
 }
@@ -150,13 +255,15 @@ class InternalStrategy<TSession> extends BaseAuthStrategy<
    TSession
 > {
    async run(req: NextRequest): Promise<StrategyResult<"internal", TSession>> {
-      const isValid = this.verifyInternalRequest(
+      const isValid = await this.verifyInternalRequest(
          req,
-         process.env.INTERNAL_SERVER_SECRET_KEY!
+         this.getInternalSecret()
       );
       if (!isValid) {
          return {
-            errorResponse: this.unauthorized(getMessage("SIGNATURE_ERROR")),
+            errorResponse: this.unauthorized(
+               this.getMessage("SIGNATURE_ERROR")
+            ),
          };
       }
       return { result: undefined };
@@ -172,14 +279,14 @@ class InternalSessionStrategy<TSession> extends BaseAuthStrategy<
    ): Promise<StrategyResult<"internal-session", TSession>> {
       const isInternalCheck = this.existInternalHeader(req);
       if (isInternalCheck) {
-         const isValid = this.verifyInternalRequest(
+         const isValid = await this.verifyInternalRequest(
             req,
-            process.env.INTERNAL_SERVER_SECRET_KEY!
+            this.getInternalSecret()
          );
          if (!isValid) {
             return {
                errorResponse: this.unauthorized(
-                  getMessage("UNAUTHORIZED_ERROR")
+                  this.getMessage("UNAUTHORIZED_ERROR")
                ),
             };
          }
@@ -188,13 +295,13 @@ class InternalSessionStrategy<TSession> extends BaseAuthStrategy<
          if (!session) {
             return {
                errorResponse: this.unauthorized(
-                  getMessage("UNAUTHORIZED_ERROR")
+                  this.getMessage("UNAUTHORIZED_ERROR")
                ),
             };
          }
          return { result: { session } };
       }
-      return {};
+      return { result: { session: null } };
    }
 }
 
@@ -202,10 +309,85 @@ class InternalSessionStrategy<TSession> extends BaseAuthStrategy<
 /*                       ✅ 전략 등록/조회/초기화 유틸                         */
 /* -------------------------------------------------------------------------- */
 
-const strategyRegistry = new Map<string, BaseAuthStrategy<any, any>>();
+/**
+ * 인증 전략과 세션 공급자를 보관하는 레지스트리입니다.
+ * `createClient()`로 만든 인스턴스는 각자 레지스트리를 가지며,
+ * 모듈 함수(`registerStrategy`, `setAuthProvider` 등)는 기본 레지스트리(`authRegistry`)를 사용합니다.
+ */
+export class AuthRegistry {
+   private strategies = new Map<string, BaseAuthStrategy<any, any>>();
+   private authProvider: AuthProvider<any> = async () => null;
+   private internalSecret?: string;
+
+   /**
+    * @param messages - 기본 전략이 인증 실패 메시지에 사용할 메시지 조회 함수
+    */
+   constructor(private messages: MessageGetter = getMessage) {
+      this.clear();
+   }
+
+   /**
+    * 사용자 전략을 등록합니다.
+    *
+    * @param key - 전략 이름 (예: "session", "custom" 등)
+    * @param strategy - `BaseAuthStrategy` 구현체
+    */
+   register<A extends Auth>(key: A, strategy: BaseAuthStrategy<A, any>) {
+      strategy.bind(this);
+      this.strategies.set(key, strategy);
+   }
+
+   /**
+    * 등록된 전략을 조회합니다.
+    *
+    * @param key - 전략 키
+    * @returns 해당 키로 등록된 인증 전략 (없으면 undefined)
+    */
+   get<A extends Auth>(key: A): BaseAuthStrategy<A, any> | undefined {
+      return this.strategies.get(key);
+   }
+
+   /**
+    * 사용자 전략을 제거하고 기본 전략(session, internal, internal-session)만 남깁니다.
+    */
+   clear(): void {
+      this.strategies.clear();
+      this.register("session", new SessionStrategy());
+      this.register("internal", new InternalStrategy());
+      this.register("internal-session", new InternalSessionStrategy());
+   }
+
+   setAuthProvider<TSession>(fn: AuthProvider<TSession>) {
+      this.authProvider = fn;
+   }
+
+   getAuthProvider<TSession>(): AuthProvider<TSession> {
+      return this.authProvider;
+   }
+
+   /**
+    * 내부 요청 서명 키를 지정합니다. 생략하면 `INTERNAL_SERVER_SECRET_KEY` 환경 변수를 사용합니다.
+    */
+   setInternalSecret(secret?: string) {
+      this.internalSecret = secret;
+   }
+
+   getInternalSecret(): string | undefined {
+      return this.internalSecret ?? process.env.INTERNAL_SERVER_SECRET_KEY;
+   }
+
+   getMessage(key: MessageKey): string {
+      return this.messages(key);
+   }
+}
 
 /**
- * strategyRegistry에 사용자 전략을 등록합니다.
+ * 기본 레지스트리, `getClient()`로 만든 라우트와 모듈 함수가 사용합니다.
+ */
+export const authRegistry = new AuthRegistry();
+
+/**
+ * 기본 레지스트리에 사용자 전략을 등록합니다.
  *
  * @param key - 전략 이름 (예: "session", "custom" 등)
  * @param strategy - `BaseAuthStrategy` 구현체
@@ -214,11 +396,11 @@ export function registerStrategy<A extends Auth>(
    key: A,
    strategy: BaseAuthStrategy<A, any>
 ) {
-   strategyRegistry.set(key, strategy);
+   authRegistry.register(key, strategy);
 }
 
 /**
- * 등록된 전략을 조회합니다.
+ * 기본 레지스트리에 등록된 전략을 조회합니다.
  *
  * @param key - 전략 키
  * @returns 해당 키로 등록된 인증 전략 (없으면 undefined)
@@ -226,14 +408,9 @@ export function registerStrategy<A extends Auth>(
 export function getStrategy<A extends Auth>(
    key: A
 ): BaseAuthStrategy<A, any> | undefined {
-   return strategyRegistry.get(key);
+   return authRegistry.get(key);
 }
 
 export function clearStrategy(): void {
-   strategyRegistry.clear();
-   strategyRegistry.set("session", new SessionStrategy());
-   strategyRegistry.set("internal", new InternalStrategy());
-   strategyRegistry.set("internal-session", new InternalSessionStrategy());
+   authRegistry.clear();
 }
-
-clearStrategy();
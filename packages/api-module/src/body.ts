@@ -0,0 +1,84 @@
+/**
+ * @file body.ts
+ * @author 심명보 (https://github.com/jerry-sb)
+ * @description 요청의 Content-Type에 맞춰 본문(JSON, urlencoded, text)을 파싱합니다.
+ */
+
+import { NextRequest } from "next/server";
+import { UnsupportedMediaTypeError, ValidationError } from "./error";
+
+export type BodyContentType =
+   | "application/json"
+   | "application/x-www-form-urlencoded"
+   | "text/plain";
+
+export type VerifyBodyOptions = {
+   /**
+    * 허용할 Content-Type 목록 (기본값 `["application/json"]`)
+    * `application/json`을 허용하면 `application/*+json` 타입도 JSON으로 처리합니다.
+    */
+   contentTypes?: BodyContentType[];
+};
+
+const DEFAULT_CONTENT_TYPES: BodyContentType[] = ["application/json"];
+
+function getMediaType(req: NextRequest): string | undefined {
+   const contentType = req.headers.get("content-type");
+   return contentType?.split(";")[0]?.trim().toLowerCase() || undefined;
+}
+
+function resolveContentType(
+   mediaType: string | undefined,
+   allowed: BodyContentType[]
+): BodyContentType {
+   // Content-Type 헤더가 없으면 JSON으로 간주합니다.
+   if (!mediaType) return "application/json";
+
+   const isJson =
+      mediaType === "application/json" ||
+      (mediaType.startsWith("application/") && mediaType.endsWith("+json"));
+   if (isJson && allowed.includes("application/json")) {
+      return "application/json";
+   }
+
+   const matched = allowed.find((type) => type === mediaType);
+   if (!matched) throw new UnsupportedMediaTypeError();
+   return matched;
+}
+
+function parseJson(text: string): unknown {
+   try {
+      return JSON.parse(text);
+   } catch {
+      throw new ValidationError(undefined, "INVALID_JSON_ERROR");
+   }
+}
+
+/**
+ * 요청 본문을 Content-Type에 맞게 파싱합니다.
+ * 본문이 비어 있으면 `undefined`를 반환하여 스키마에서 판단하도록 합니다.
+ *
+ * @throws UnsupportedMediaTypeError - 허용되지 않은 Content-Type (415)
+ * @throws ValidationError - 잘못된 JSON 본문 (400)
+ */
+export async function readBody(
+   req: NextRequest,
+   options: VerifyBodyOptions = {}
+): Promise<unknown> {
+   const contentType = resolveContentType(
+      getMediaType(req),
+      options.contentTypes ?? DEFAULT_CONTENT_TYPES
+   );
+
+   const text = await req.text();
+   if (!text) return undefined;
+
+   switch (contentType) {
+      case "application/json":
+         return parseJson(text);
+      case "application/x-www-form-urlencoded":
+         return Object.fromEntries(new URLSearchParams(text).entries());
+      case "text/plain":
+         return text;
+   }
+}
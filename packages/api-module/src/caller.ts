@@ -0,0 +1,216 @@
+/**
+ * @file caller.ts
+ * @author 심명보 (https://github.com/jerry-sb)
+ * @description 서버 라우트 핸들러의 타입으로부터 추론되는 타입 안전한 fetch 클라이언트
+ *
+ * 사용법
+ * // app/api/routes.ts (서버)
+ * export const routes = { "GET /users/{id}": getUser, "POST /users": createUser };
+ *
+ * // 프론트엔드 (서버 모듈을 불러오지 않는 `@jerry-sb/api-module/caller` 엔트리를 사용합니다)
+ * import { createApiCaller } from "@jerry-sb/api-module/caller";
+ * import type { routes } from "@/app/api/routes";
+ *
+ * const api = createApiCaller<typeof routes>({ baseUrl: "/api" });
+ * const user = await api("GET /users/{id}", { params: { id: "1" } });
+ */
+
+import type { RouteFunction } from "./handler";
+import type { ErrorResponse } from "./error";
+
+/** 라우트 목록에 올 수 있는 라우트 핸들러, 요청/응답 타입은 `InferRoute`로 추론합니다. */
+type AnyRoute = Pick<RouteFunction<unknown, unknown>, "meta" | "__types">;
+
+/** 요청 값이 없어도 되는 타입인지 검사할 때 쓰는 빈 객체 */
+type EmptyObject = Record<string, never>;
+
+/**
+ * `InferRoute`가 추론하는 라우트의 요청/응답 타입입니다.
+ */
+export type RouteTypes = {
+   params: unknown;
+   query: unknown;
+   body: unknown;
+   data: unknown;
+};
+
+/**
+ * 라우트 핸들러(`handle()`의 반환값)로부터 요청/응답 타입을 추론합니다.
+ */
+export type InferRoute<H> =
+   H extends RouteFunction<infer TData, infer P, unknown, infer B, infer E>
+      ? {
+           params: P;
+           query: E extends { query: infer Q } ? Q : undefined;
+           body: B extends { body: infer X } ? X : undefined;
+           data: TData;
+        }
+      : never;
+
+type QueryValue =
+   | string
+   | number
+   | boolean
+   | null
+   | undefined
+   | (string | number | boolean)[];
+
+type QueryInput = Record<string, QueryValue>;
+
+type ParamsPart<P> = string extends keyof P ? { params?: P } : { params: P };
+
+type QueryPart<Q> = [Q] extends [undefined]
+   ? { query?: QueryInput }
+   : EmptyObject extends Q
+     ? { query?: Q & QueryInput }
+     : { query: Q & QueryInput };
+
+type BodyPart<X> = [X] extends [undefined]
+   ? { body?: undefined }
+   : undefined extends X
+     ? { body?: X }
+     : { body: X };
+
+/**
+ * 라우트 호출 시 전달하는 요청 값입니다.
+ * 서버 체인에서 필수인 params/query/body는 필수 값으로 요구됩니다.
+ */
+export type ApiRequest<R extends RouteTypes> = ParamsPart<R["params"]> &
+   QueryPart<R["query"]> &
+   BodyPart<R["body"]> & {
+      headers?: HeadersInit;
+      signal?: AbortSignal;
+   };
+
+export type ApiCallerOptions = {
+   /** 요청 경로 앞에 붙는 주소 (예: "https://api.example.com", "/api") */
+   baseUrl?: string;
+   /** 모든 요청에 추가할 헤더 */
+   headers?: HeadersInit;
+   /** 사용할 fetch 구현 (기본값 전역 fetch) */
+   fetch?: typeof fetch;
+};
+
+export type ApiCaller<Routes extends Record<string, AnyRoute>> = <
+   K extends keyof Routes & string,
+>(
+   route: K,
+   ...args: EmptyObject extends ApiRequest<InferRoute<Routes[K]>>
+      ? [request?: ApiRequest<InferRoute<Routes[K]>>]
+      : [request: ApiRequest<InferRoute<Routes[K]>>]
+) => Promise<InferRoute<Routes[K]>["data"]>;
+
+/**
+ * 2xx가 아닌 응답을 받았을 때 발생하는 클라이언트 에러입니다.
+ * `response`에는 서버의 `handleServerError`가 만든 `ErrorResponse`가 담깁니다.
+ */
+export class ApiClientError extends Error {
+   public status: number;
+   public response: ErrorResponse;
+
+   constructor(status: number, response: ErrorResponse) {
+      super(response.message);
+      this.status = status;
+      this.response = response;
+   }
+}
+
+function buildPath(path: string, params: Record<string, unknown> = {}) {
+   return path.replace(/\{([^}]+)\}/g, (_, name: string) => {
+      const value = params[name];
+      if (value === undefined) {
+         throw new Error(`❌ Missing path param "${name}" for ${path}`);
+      }
+      return Array.isArray(value)
+         ? value.map((v) => encodeURIComponent(String(v))).join("/")
+         : encodeURIComponent(String(value));
+   });
+}
+
+function buildQuery(query: QueryInput = {}) {
+   const searchParams = new URLSearchParams();
+   for (const [key, value] of Object.entries(query)) {
+      if (value === undefined || value === null) continue;
+      const values = Array.isArray(value) ? value : [value];
+      values.forEach((v) => searchParams.append(key, String(v)));
+   }
+   const queryString = searchParams.toString();
+   return queryString ? `?${queryString}` : "";
+}
+
+type RawRequest = {
+   params?: Record<string, unknown>;
+   query?: QueryInput;
+   body?: unknown;
+   headers?: HeadersInit;
+   signal?: AbortSignal;
+};
+
+async function readJson(
+   res: Response
+): Promise<Record<string, unknown> | undefined> {
+   const text = await res.text();
+   if (!text) return undefined;
+   try {
+      return JSON.parse(text);
+   } catch {
+      return undefined;
+   }
+}
+
+/**
+ * 라우트 목록 타입으로부터 타입 안전한 API 호출 함수를 만듭니다.
+ * 성공 응답은 `{ code, message, data }` envelope를 벗겨 `data`만 반환하고,
+ * 실패 응답은 `ApiClientError`를 던집니다.
+ *
+ * @param options - baseUrl, 공통 헤더, fetch 구현
+ */
+export function createApiCaller<Routes extends Record<string, AnyRoute>>(
+   options: ApiCallerOptions = {}
+): ApiCaller<Routes> {
+   const fetcher = options.fetch ?? fetch;
+
+   return (async (route: string, request: RawRequest = {}) => {
+      const [method = "GET", path = "/"] = route.trim().split(/\s+/);
+      const { params, query, body, headers, signal } = request;
+
+      const url = `${options.baseUrl ?? ""}${buildPath(path, params)}${buildQuery(query)}`;
+      const requestHeaders = new Headers(options.headers);
+      new Headers(headers).forEach((value, key) =>
+         requestHeaders.set(key, value)
+      );
+
+      let requestBody: BodyInit | undefined;
+      if (body instanceof FormData) {
+         requestBody = body;
+      } else if (body !== undefined) {
+         requestBody = JSON.stringify(body);
+         if (!requestHeaders.has("content-type")) {
+            requestHeaders.set("content-type", "application/json");
+         }
+      }
+
+      const res = await fetcher(url, {
+         method,
+         headers: requestHeaders,
+         body: requestBody,
+         signal,
+      });
+      const json = await readJson(res);
+
+      if (!res.ok) {
+         throw new ApiClientError(
+            res.status,
+            json && "message" in json
+               ? (json as ErrorResponse)
+               : {
+                    code: res.status,
+                    message: res.statusText,
+                    error: { url, method },
+                 }
+         );
+      }
+
+      return json?.data;
+   }) as ApiCaller<Routes>;
+}
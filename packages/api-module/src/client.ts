@@ -1,10 +1,68 @@
-import { initMessageGetter } from "./messeage";
-import { createRouteHandler, RouteHandler } from "./handler";
+import { NextRequest, NextResponse } from "next/server";
+import {
+   createMessageGetter,
+   initMessageGetter,
+   MessageGetter,
+} from "./messeage";
+import { BaseContext, createRouteHandler, RouteHandler } from "./handler";
+import { CorsOptions } from "./cors";
+import { getLogger, Logger, setLogger } from "./logger";
+import { Container } from "./container";
+import {
+   Auth,
+   AuthProvider,
+   AuthRegistry,
+   authRegistry,
+   BaseAuthStrategy,
+   signInternalRequest,
+} from "./auth";
+import {
+   ErrorHandler,
+   ErrorResponse,
+   ErrorRuntime,
+   getGlobalErrorHandler,
+   handleServerError,
+   setGlobalErrorHandler,
+} from "./error";
 
 export type LangType = "kr" | "en";
 
+/**
+ * 훅에 전달되는 context입니다. 실행 시점까지 미들웨어가 추가한 값(`session` 등)이 포함됩니다.
+ */
+export type HookContext = BaseContext<unknown, unknown, unknown, unknown> &
+   Record<string, unknown>;
+
+/**
+ * 모든 라우트의 `handle()` 실행 과정에서 호출되는 훅입니다.
+ * preflight(OPTIONS) 요청에는 호출되지 않습니다.
+ */
+export type ClientHooks = {
+   /** 미들웨어 실행 전에 호출됩니다. 에러를 던지면 에러 응답으로 처리됩니다. */
+   onRequest?: (req: NextRequest, ctx: HookContext) => void | Promise<void>;
+   /** 최종 응답을 반환하기 직전에 호출됩니다. 응답 헤더를 추가할 수 있습니다. */
+   onResponse?: (
+      req: NextRequest,
+      ctx: HookContext,
+      response: NextResponse,
+      durationMs: number
+   ) => void | Promise<void>;
+   /** 미들웨어나 handler에서 에러가 발생하면 `handleServerError` 전에 호출됩니다. */
+   onError?: (
+      error: unknown,
+      req: NextRequest,
+      ctx: HookContext
+   ) => void | Promise<void>;
+};
+
 export interface ClientInstanceOptions {
+   /**
+    * 내부 요청 서명과 검증(`internalFetch`, `InternalStrategy`)에 사용할 키
+    * 지정하면 `INTERNAL_SERVER_SECRET_KEY` 환경 변수 대신 이 키로 검증하며, 생략하면 환경 변수를 사용합니다.
+    */
    hmacKey?: string;
+   /** cursorPagination()의 커서 서명 키 (내부 요청 키와 분리해서 관리합니다) */
+   cursorKey?: string;
    timeout?: number;
    lang: LangType;
    pagination: {
@@ -12,7 +70,19 @@ export interface ClientInstanceOptions {
       pageSize: string;
       sortBy: string;
       sortOrder: string;
+      /** cursorPagination()에서 사용할 커서 쿼리 이름 (기본값 "cursor") */
+      cursor?: string;
+      /** cursorPagination()에서 사용할 개수 쿼리 이름 (기본값 "limit") */
+      limit?: string;
    };
+   /** 모든 라우트에 적용할 CORS 설정 (라우트별로 `.cors()`로 덮어쓸 수 있습니다) */
+   cors?: CorsOptions;
+   /** 에러/검증 로그를 남길 Logger (기본값 `consoleLogger`) */
+   logger?: Logger;
+   /** 모든 라우트에 적용할 요청/응답/에러 훅 */
+   hooks?: ClientHooks;
+   /** `ctx.resolve`, `.inject()`에서 사용할 DI 컨테이너 (기본값 `container`) */
+   container?: Container;
 }
 
 const defaultOptions: ClientInstanceOptions = {
@@ -23,16 +93,149 @@ const defaultOptions: ClientInstanceOptions = {
       pageSize: "pageSize",
       sortBy: "sortBy",
       sortOrder: "sortOrder",
+      cursor: "cursor",
+      limit: "limit",
    },
 };
 
-let _options: ClientInstanceOptions | null = null;
+/**
+ * 설정, 메시지, 인증 전략/세션 공급자, 에러 핸들러를 각자 가지는 클라이언트 인스턴스입니다.
+ * 한 앱에서 `/api/v1`, `/api/admin`처럼 서로 다른 설정의 라우트를 만들 때 사용합니다.
+ *
+ * 사용법
+ * const admin = createClient({ lang: "en", pagination: { ... } });
+ * admin.setAuthProvider(getAdminSession);
+ *
+ * export const GET = admin.route().auth("session").handle(...);
+ */
+export class ApiClient {
+   readonly options: ClientInstanceOptions;
+   /** 이 인스턴스의 언어로 메시지를 조회합니다. */
+   readonly getMessage: MessageGetter;
+   /** 이 인스턴스의 인증 전략과 세션 공급자 */
+   readonly auth: AuthRegistry;
+   private errorHandler?: ErrorRuntime["errorHandler"];
+
+   /**
+    * @param shared - true 이면 인증 전략, 세션 공급자, 에러 핸들러, Logger를
+    * 모듈 전역 설정(`registerStrategy`, `setAuthProvider`, `setGlobalErrorHandler`, `setLogger`)과 공유합니다.
+    */
+   constructor(
+      options: ClientInstanceOptions,
+      private readonly shared = false
+   ) {
+      this.options = { ...defaultOptions, ...options };
+      this.getMessage = createMessageGetter(this.options.lang);
+      this.auth = shared ? authRegistry : new AuthRegistry(this.getMessage);
+      this.auth.setInternalSecret(this.options.hmacKey);
+      if (shared) setLogger(this.options.logger);
+   }
+
+   /**
+    * 이 인스턴스의 설정으로 라우트 체인을 시작합니다.
+    */
+   route<
+      TData = unknown,
+      P extends Record<string, string | string[]> = Record<
+         string,
+         string | string[]
+      >,
+      S = unknown,
+      B = unknown,
+      E = unknown,
+   >(): RouteHandler<TData, P, S, B, E> {
+      return createRouteHandler<TData, P, S, B, E>({
+         ...this.options,
+         client: this,
+      });
+   }
+
+   registerStrategy<A extends Auth, TSession>(
+      key: A,
+      strategy: BaseAuthStrategy<A, TSession>
+   ) {
+      this.auth.register(key, strategy);
+   }
+
+   setAuthProvider<TSession>(fn: AuthProvider<TSession>) {
+      this.auth.setAuthProvider(fn);
+   }
+
+   setErrorHandler<T>(handler: ErrorHandler<T>) {
+      if (this.shared) setGlobalErrorHandler(handler);
+      else this.errorHandler = handler;
+   }
+
+   /**
+    * 내부 요청 서명 헤더를 추가해 `fetch`를 호출합니다.
+    * 서명 키는 `hmacKey`(없으면 `INTERNAL_SERVER_SECRET_KEY` 환경 변수)를 사용합니다.
+    *
+    * @param input - 절대 URL 또는 `Request`
+    * @param init - `fetch` 옵션
+    */
+   async internalFetch(
+      input: string | URL | Request,
+      init?: RequestInit
+   ): Promise<Response> {
+      const secret = this.auth.getInternalSecret();
+      if (!secret) {
+         throw new Error("❌ internalFetch requires hmacKey.");
+      }
+
+      return fetch(await signInternalRequest(new Request(input, init), secret));
+   }
+
+   /**
+    * 이 인스턴스의 메시지, 에러 핸들러, Logger로 에러 응답 본문을 만듭니다.
+    */
+   handleError(error: unknown, req: Request): Promise<ErrorResponse> {
+      return handleServerError(error, req, {
+         getMessage: this.getMessage,
+         errorHandler: this.shared
+            ? getGlobalErrorHandler()
+            : this.errorHandler,
+         logger: this.options.logger ?? getLogger(),
+      });
+   }
+}
+
+export type CreateClientOptions = ClientInstanceOptions & {
+   /**
+    * true 이면 이미 기본 인스턴스가 있어도 이 인스턴스로 `getClient()`와 `internalFetch()`의 기본 인스턴스를 바꿉니다.
+    * (생략하면 처음 만든 인스턴스만 기본 인스턴스가 됩니다.)
+    */
+   default?: boolean;
+};
+
+let _default: ApiClient | null = null;
+
+/**
+ * 클라이언트 인스턴스를 만듭니다.
+ * 처음 만든 인스턴스(또는 `default: true`로 만든 인스턴스)는 `getClient()`가 사용하는 기본 인스턴스가 되며,
+ * 모듈 전역 설정과 상태를 공유합니다. 그 외의 인스턴스는 전역 설정과 분리됩니다.
+ */
+export function createClient({
+   default: isDefault = false,
+   ...options
+}: CreateClientOptions): ApiClient {
+   initMessageGetter(options.lang);
 
-export function createClient(options: ClientInstanceOptions) {
-   _options = { ...defaultOptions, ...options };
-   initMessageGetter(_options.lang);
+   const shared = isDefault || !_default;
+   const client = new ApiClient(options, shared);
+   if (shared) _default = client;
+   return client;
 }
 
+/**
+ * 기본 인스턴스를 초기화합니다. (테스트용)
+ */
+export function resetClient() {
+   _default = null;
+}
+
+/**
+ * 기본 인스턴스(처음 `createClient()`로 만든 인스턴스)의 라우트 체인을 시작합니다.
+ */
 export function getClient<
    TData = any,
    P extends Record<string, string | string[]> = any,
@@ -40,9 +243,26 @@ export function getClient<
    B = any,
    E = any,
 >(): RouteHandler<TData, P, S, B, E> {
-   if (!_options) {
+   if (!_default) {
+      throw new Error("❌ API module client not found.");
+   }
+
+   return _default.route<TData, P, S, B, E>();
+}
+
+/**
+ * 기본 인스턴스의 `hmacKey`로 서명한 내부 요청을 보냅니다.
+ *
+ * 사용법
+ * const res = await internalFetch("https://api.internal/jobs", { method: "POST", body });
+ */
+export async function internalFetch(
+   input: string | URL | Request,
+   init?: RequestInit
+): Promise<Response> {
+   if (!_default) {
       throw new Error("❌ API module client not found.");
    }
 
-   return createRouteHandler<TData, P, S, B, E>(_options);
+   return _default.internalFetch(input, init);
 }
@@ -0,0 +1,284 @@
+/**
+ * @file container.ts
+ * @author 심명보 (https://github.com/jerry-sb)
+ * @description singleton / transient / request 범위를 지원하는 의존성 주입(DI) 컨테이너
+ *
+ * 사용법
+ * @Injectable({ scope: "request" })
+ * class UserService {
+ *    constructor(@Inject(DB) private db: Database) {}
+ * }
+ *
+ * container.register(DB, { useValue: db });
+ *
+ * getClient()
+ *    .inject({ userService: UserService })
+ *    .handle(async (req, ctx) => ctx.userService.find(...));
+ */
+
+import "reflect-metadata";
+
+export type Scope = "singleton" | "transient" | "request";
+
+/** 생성자 인자 타입과 관계없이 모든 클래스를 받습니다. (인자는 컨테이너가 주입합니다.) */
+export type Constructor<T> = new (...args: never[]) => T;
+
+/**
+ * 클래스가 아닌 값(설정, 외부 클라이언트 등)을 등록할 때 사용하는 토큰입니다.
+ */
+export class InjectionToken<T> {
+   declare readonly __type?: T;
+
+   constructor(public readonly description: string) {}
+
+   toString() {
+      return `InjectionToken(${this.description})`;
+   }
+}
+
+export type Token<T> = Constructor<T> | InjectionToken<T>;
+
+/**
+ * 토큰이 가리키는 인스턴스 타입입니다.
+ */
+export type TokenType<K> =
+   K extends Constructor<infer T>
+      ? T
+      : K extends InjectionToken<infer T>
+        ? T
+        : never;
+
+export type Resolver = {
+   resolve: <T>(token: Token<T>) => T;
+};
+
+export type Provider<T> =
+   | { useClass: Constructor<T> }
+   | { useValue: T }
+   | { useFactory: (resolver: Resolver) => T };
+
+export type RegisterOptions = {
+   /** 인스턴스 생존 범위 (기본값 "singleton", `useValue`는 항상 singleton) */
+   scope?: Scope;
+};
+
+type Registration = {
+   provider: Provider<unknown>;
+   scope: Scope;
+};
+
+const INJECT_METADATA = "api-module:inject";
+
+function tokenName(token: Token<unknown>): string {
+   return token instanceof InjectionToken ? token.toString() : token.name;
+}
+
+/**
+ * 요청 하나 동안 유지되는 범위입니다.
+ * `request` 범위의 인스턴스를 보관하고, `dispose()` 시 인스턴스의 `dispose()`를 호출합니다.
+ */
+export class RequestScope implements Resolver {
+   private instances = new Map<Token<unknown>, unknown>();
+
+   constructor(private container: Container) {}
+
+   resolve<T>(token: Token<T>): T {
+      return this.container.resolve(token, this);
+   }
+
+   /** @internal */
+   getOrCreate<T>(token: Token<T>, create: () => T): T {
+      if (!this.instances.has(token)) this.instances.set(token, create());
+      return this.instances.get(token) as T;
+   }
+
+   /**
+    * 생성된 순서의 역순으로 인스턴스의 `dispose()`를 호출합니다.
+    */
+   async dispose() {
+      const instances = [...this.instances.values()].reverse();
+      this.instances.clear();
+
+      for (const instance of instances) {
+         const { dispose } = (instance ?? {}) as { dispose?: unknown };
+         if (typeof dispose === "function") await dispose.call(instance);
+      }
+   }
+}
+
+export class Container implements Resolver {
+   private registrations = new Map<Token<unknown>, Registration>();
+   private singletons = new Map<Token<unknown>, unknown>();
+   private resolving: Token<unknown>[] = [];
+
+   /**
+    * 토큰에 provider를 등록합니다. provider를 생략하면 클래스 자신을 등록합니다.
+    *
+    * @param token - 클래스 또는 `InjectionToken`
+    * @param provider - `useClass`, `useValue`, `useFactory`
+    * @param options - 생존 범위
+    */
+   register<T>(
+      token: Token<T>,
+      provider?: Provider<T>,
+      options: RegisterOptions = {}
+   ): this {
+      const resolved =
+         provider ??
+         (token instanceof InjectionToken ? undefined : { useClass: token });
+      if (!resolved) {
+         throw new Error(`❌ ${tokenName(token)} requires a provider.`);
+      }
+
+      const scope =
+         "useValue" in resolved ? "singleton" : (options.scope ?? "singleton");
+      this.registrations.set(token, { provider: resolved, scope });
+      this.singletons.delete(token);
+      return this;
+   }
+
+   has(token: Token<unknown>): boolean {
+      return this.registrations.has(token);
+   }
+
+   /**
+    * 토큰의 인스턴스를 반환합니다.
+    * `request` 범위의 토큰은 `scope`(또는 `ctx.resolve`) 안에서만 조회할 수 있습니다.
+    */
+   resolve<T>(token: Token<T>, scope?: RequestScope): T {
+      const registration = this.registrations.get(token);
+      if (!registration) {
+         throw new Error(
+            `❌ ${tokenName(token)} is not registered in the container.`
+         );
+      }
+
+      const create = () =>
+         this.create(token, registration.provider as Provider<T>, scope);
+
+      switch (registration.scope) {
+         case "singleton":
+            if (!this.singletons.has(token)) {
+               // singleton은 요청 범위 인스턴스에 의존할 수 없습니다.
+               this.singletons.set(
+                  token,
+                  this.create(token, registration.provider as Provider<T>)
+               );
+            }
+            return this.singletons.get(token) as T;
+         case "request":
+            if (!scope) {
+               throw new Error(
+                  `❌ ${tokenName(token)} is request-scoped and must be resolved within a request.`
+               );
+            }
+            return scope.getOrCreate(token, create);
+         default:
+            return create();
+      }
+   }
+
+   /**
+    * 요청 범위를 만듭니다. `handle()`이 요청마다 호출합니다.
+    */
+   createScope(): RequestScope {
+      return new RequestScope(this);
+   }
+
+   /**
+    * 모든 등록 정보와 singleton 인스턴스를 제거합니다. (테스트용)
+    */
+   reset() {
+      this.registrations.clear();
+      this.singletons.clear();
+   }
+
+   private create<T>(
+      token: Token<T>,
+      provider: Provider<T>,
+      scope?: RequestScope
+   ): T {
+      if (this.resolving.includes(token)) {
+         const path = [...this.resolving, token].map(tokenName).join(" -> ");
+         throw new Error(`❌ Circular dependency detected: ${path}`);
+      }
+
+      const resolver: Resolver = {
+         resolve: (dependency) => this.resolve(dependency, scope),
+      };
+
+      this.resolving.push(token);
+      try {
+         if ("useValue" in provider) return provider.useValue;
+         if ("useFactory" in provider) return provider.useFactory(resolver);
+
+         const target = provider.useClass;
+         const deps = getDependencies(target).map((dependency) =>
+            resolver.resolve(dependency)
+         );
+         return new target(...(deps as never[]));
+      } finally {
+         this.resolving.pop();
+      }
+   }
+}
+
+function getDependencies(target: Constructor<unknown>): Token<unknown>[] {
+   const paramTypes: Token<unknown>[] =
+      Reflect.getMetadata("design:paramtypes", target) ?? [];
+   const injected: Record<number, Token<unknown>> = Reflect.getOwnMetadata(
+      INJECT_METADATA,
+      target
+   ) ?? {};
+
+   const length = Math.max(target.length, paramTypes.length);
+   return Array.from({ length }, (_, index) => {
+      const dependency = injected[index] ?? paramTypes[index];
+      if (!dependency) {
+         throw new Error(
+            `❌ Cannot resolve parameter #${index} of ${target.name}. Use @Inject(token).`
+         );
+      }
+      return dependency;
+   });
+}
+
+/**
+ * 기본 컨테이너, `ClientInstanceOptions.container`를 지정하지 않으면 이 컨테이너를 사용합니다.
+ */
+export const container = new Container();
+
+/**
+ * 클래스를 컨테이너에 등록하는 데코레이터입니다.
+ *
+ * @param options - 생존 범위와 등록할 컨테이너 (기본값 `container`)
+ */
+export function Injectable(
+   options: RegisterOptions & { container?: Container } = {}
+): ClassDecorator {
+   return (target) => {
+      (options.container ?? container).register(
+         target as unknown as Constructor<unknown>,
+         undefined,
+         options
+      );
+   };
+}
+
+/**
+ * 생성자 파라미터에 주입할 토큰을 지정하는 데코레이터입니다.
+ * 인터페이스/`InjectionToken` 타입이나 데코레이터 메타데이터가 없는 환경(esbuild 등)에서 사용합니다.
+ */
+export function Inject(token: Token<unknown>): ParameterDecorator {
+   return (target, _propertyKey, index) => {
+      const injected: Record<number, Token<unknown>> = Reflect.getOwnMetadata(
+         INJECT_METADATA,
+         target
+      ) ?? {};
+      Reflect.defineMetadata(
+         INJECT_METADATA,
+         { ...injected, [index]: token },
+         target
+      );
+   };
+}
@@ -0,0 +1,154 @@
+/**
+ * @file cors.ts
+ * @author 심명보 (https://github.com/jerry-sb)
+ * @description 응답에 `Access-Control-*` 헤더를 추가하고 preflight(OPTIONS) 요청에 응답합니다.
+ *
+ * 사용법
+ * createClient({ ..., cors: { origin: "https://admin.example.com", credentials: true } });
+ * getClient().cors({ origin: /\.example\.com$/ }).handle(...);
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+export type CorsOrigin =
+   | string
+   | RegExp
+   | (string | RegExp)[]
+   | ((origin: string, req: NextRequest) => boolean | Promise<boolean>);
+
+export type CorsOptions = {
+   /** 허용할 Origin (기본값 "*", `credentials`가 true 이면 "*"는 어떤 Origin도 허용하지 않습니다.) */
+   origin?: CorsOrigin;
+   /** preflight에 허용할 메서드 (기본값 GET, HEAD, PUT, PATCH, POST, DELETE) */
+   methods?: string[];
+   /** preflight에 허용할 요청 헤더 (기본값 `Access-Control-Request-Headers` 그대로 허용) */
+   allowedHeaders?: string[];
+   /** 브라우저에서 읽을 수 있도록 노출할 응답 헤더 */
+   exposedHeaders?: string[];
+   /** 쿠키 등 자격 증명 포함 요청 허용 여부 */
+   credentials?: boolean;
+   /** preflight 결과 캐시 시간 (초) */
+   maxAge?: number;
+};
+
+const DEFAULT_METHODS = ["GET", "HEAD", "PUT", "PATCH", "POST", "DELETE"];
+
+async function isAllowedOrigin(
+   origin: string,
+   cors: CorsOptions,
+   req: NextRequest
+): Promise<boolean> {
+   const allowed = cors.origin ?? "*";
+   if (typeof allowed === "function") return allowed(origin, req);
+
+   // 자격 증명을 허용하면 "*"로 모든 Origin을 열 수 없습니다.
+   const rules = Array.isArray(allowed) ? allowed : [allowed];
+   return rules.some((rule) =>
+      typeof rule === "string"
+         ? (rule === "*" && !cors.credentials) || rule === origin
+         : rule.test(origin)
+   );
+}
+
+/**
+ * 응답이 요청 Origin에 따라 달라지는지 확인합니다. (항상 "*"로 응답하는 경우만 false)
+ */
+function variesByOrigin(cors: CorsOptions): boolean {
+   return (cors.origin ?? "*") !== "*" || !!cors.credentials;
+}
+
+/**
+ * 요청의 Origin이 허용되면 응답 헤더에 넣을 `Access-Control-Allow-Origin` 값을 반환합니다.
+ * 자격 증명을 허용하면 "*" 대신 요청 Origin을 그대로 반환합니다.
+ */
+async function resolveAllowOrigin(
+   req: NextRequest,
+   cors: CorsOptions
+): Promise<string | null> {
+   const origin = req.headers.get("origin");
+   if (!origin) return null;
+
+   if (!(await isAllowedOrigin(origin, cors, req))) return null;
+
+   return variesByOrigin(cors) ? origin : "*";
+}
+
+function setOriginHeaders(
+   headers: Headers,
+   allowOrigin: string,
+   cors: CorsOptions
+) {
+   headers.set("Access-Control-Allow-Origin", allowOrigin);
+   if (cors.credentials) {
+      headers.set("Access-Control-Allow-Credentials", "true");
+   }
+}
+
+/**
+ * CORS preflight 요청(`OPTIONS` + `Access-Control-Request-Method`)인지 확인합니다.
+ */
+export function isPreflightRequest(req: NextRequest): boolean {
+   return (
+      req.method === "OPTIONS" &&
+      req.headers.has("access-control-request-method")
+   );
+}
+
+/**
+ * preflight 요청에 대한 204 응답을 만듭니다.
+ * 허용되지 않은 Origin이면 CORS 헤더 없이 응답하여 브라우저가 요청을 차단하게 합니다.
+ */
+export async function createPreflightResponse(
+   req: NextRequest,
+   cors: CorsOptions
+): Promise<NextResponse> {
+   const response = new NextResponse(null, { status: 204 });
+   if (variesByOrigin(cors)) response.headers.append("Vary", "Origin");
+   const allowOrigin = await resolveAllowOrigin(req, cors);
+   if (!allowOrigin) return response;
+
+   const { headers } = response;
+   setOriginHeaders(headers, allowOrigin, cors);
+   headers.set(
+      "Access-Control-Allow-Methods",
+      (cors.methods ?? DEFAULT_METHODS).join(", ")
+   );
+
+   const requestHeaders = req.headers.get("access-control-request-headers");
+   const allowedHeaders = cors.allowedHeaders?.join(", ") ?? requestHeaders;
+   if (allowedHeaders) {
+      headers.set("Access-Control-Allow-Headers", allowedHeaders);
+      if (!cors.allowedHeaders) {
+         headers.append("Vary", "Access-Control-Request-Headers");
+      }
+   }
+   if (cors.maxAge !== undefined) {
+      headers.set("Access-Control-Max-Age", String(cors.maxAge));
+   }
+
+   return response;
+}
+
+/**
+ * 성공/에러 응답에 CORS 헤더를 추가합니다.
+ * 허용되지 않은 Origin의 응답에도 `Vary: Origin`을 추가하여 캐시가 다른 Origin에 재사용하지 않게 합니다.
+ */
+export async function applyCorsHeaders<R extends Response>(
+   req: NextRequest,
+   response: R,
+   cors: CorsOptions
+): Promise<R> {
+   if (variesByOrigin(cors)) response.headers.append("Vary", "Origin");
+   const allowOrigin = await resolveAllowOrigin(req, cors);
+   if (!allowOrigin) return response;
+
+   setOriginHeaders(response.headers, allowOrigin, cors);
+   if (cors.exposedHeaders?.length) {
+      response.headers.set(
+         "Access-Control-Expose-Headers",
+         cors.exposedHeaders.join(", ")
+      );
+   }
+
+   return response;
+}
@@ -0,0 +1,104 @@
+/**
+ * @file cursor.ts
+ * @author 심명보 (https://github.com/jerry-sb)
+ * @description 커서 기반(keyset) 페이지네이션을 위한 서명된 커서 인코딩/디코딩 유틸
+ *
+ * 커서는 `base64url(JSON).base64url(HMAC-SHA256)` 형태의 불투명한 문자열이며,
+ * 서명이 맞지 않으면 변조된 커서로 간주합니다.
+ */
+
+import { ValidationError } from "./error";
+import {
+   decodeText,
+   encodeText,
+   fromBase64Url,
+   hmacSign,
+   hmacVerify,
+   toBase64Url,
+} from "./web-crypto";
+
+export type CursorPage<T> = {
+   items: T[];
+   nextCursor: string | null;
+};
+
+export type CursorParams<C> = {
+   /** 디코딩된 커서 값 (첫 페이지면 null) */
+   after: C | null;
+   limit: number;
+   /**
+    * `limit + 1`개 조회한 결과로 현재 페이지와 `nextCursor`를 만듭니다.
+    *
+    * @param items - `limit + 1`개까지 조회한 목록
+    * @param toCursor - 마지막 항목으로 다음 커서 값을 만드는 함수
+    */
+   paginate: <T>(
+      items: T[],
+      toCursor: (item: T) => C
+   ) => Promise<CursorPage<T>>;
+};
+
+/**
+ * 값을 서명된 커서 문자열로 인코딩합니다.
+ */
+export async function encodeCursor(
+   value: unknown,
+   secret: string
+): Promise<string> {
+   const payload = toBase64Url(encodeText(JSON.stringify(value)));
+   const signature = toBase64Url(await hmacSign(secret, payload));
+   return `${payload}.${signature}`;
+}
+
+/**
+ * 커서 문자열의 서명을 검증하고 값을 디코딩합니다.
+ *
+ * @throws ValidationError - 형식이 잘못되었거나 서명이 맞지 않는 커서 (400)
+ */
+export async function decodeCursor(
+   cursor: string,
+   secret: string
+): Promise<unknown> {
+   const invalid = () => new ValidationError(undefined, "INVALID_CURSOR_ERROR");
+
+   const [payload, signature] = cursor.split(".");
+   if (!payload || !signature) throw invalid();
+
+   const signatureBytes = fromBase64Url(signature);
+   if (
+      !signatureBytes ||
+      !(await hmacVerify(secret, signatureBytes, payload))
+   ) {
+      throw invalid();
+   }
+
+   try {
+      return JSON.parse(decodeText(fromBase64Url(payload) ?? new Uint8Array()));
+   } catch {
+      throw invalid();
+   }
+}
+
+export function createCursorParams<C>(
+   after: C | null,
+   limit: number,
+   secret: string
+): CursorParams<C> {
+   return {
+      after,
+      limit,
+      async paginate(items, toCursor) {
+         const hasNext = items.length > limit;
+         const pageItems = hasNext ? items.slice(0, limit) : items;
+         const last = pageItems[pageItems.length - 1];
+
+         return {
+            items: pageItems,
+            nextCursor:
+               hasNext && last !== undefined
+                  ? await encodeCursor(toCursor(last), secret)
+                  : null,
+         };
+      },
+   };
+}
@@ -1,57 +1,132 @@
 import { ZodError } from "zod";
-import { getMessage } from "./messeage";
+import { getMessage, MessageGetter, MessageKey } from "./messeage";
+import { getLogger, getRequestId, Logger } from "./logger";
+
+function defaultMessage(key: MessageKey) {
+   try {
+      return getMessage(key);
+   } catch {
+      return key;
+   }
+}
 
 // 베이스 서버 에러 (심플하게 유지)
 export class ServerError extends Error {
    public code: number;
+   /**
+    * 메시지를 생략해 기본 메시지를 사용한 경우의 메시지 키입니다.
+    * 에러 응답을 만들 때 클라이언트 인스턴스의 언어로 다시 조회합니다.
+    */
+   public messageKey?: MessageKey;
+   /** 에러 응답에 함께 보낼 헤더 (`Retry-After` 등) */
+   public headers?: Headers;
 
-   constructor(code: number, message: string) {
-      super(message);
+   constructor(code: number, message?: string, messageKey?: MessageKey) {
+      super(message ?? (messageKey ? defaultMessage(messageKey) : ""));
       this.code = code;
+      this.messageKey = message === undefined ? messageKey : undefined;
    }
 }
 
 // 각 상태코드별 에러 정의
 export class UnauthorizedError extends ServerError {
-   constructor(message = getMessage("UNAUTHORIZED_ERROR")) {
-      super(401, message);
+   constructor(
+      message?: string,
+      messageKey: MessageKey = "UNAUTHORIZED_ERROR"
+   ) {
+      super(401, message, messageKey);
    }
 }
 
 export class ForbiddenError extends ServerError {
-   constructor(message = getMessage("FORBIDDEN_ERROR")) {
-      super(403, message);
+   constructor(message?: string, messageKey: MessageKey = "FORBIDDEN_ERROR") {
+      super(403, message, messageKey);
    }
 }
 
 export class ValidationError extends ServerError {
-   constructor(message = getMessage("VALIDATION_ERROR")) {
-      super(400, message);
+   constructor(message?: string, messageKey: MessageKey = "VALIDATION_ERROR") {
+      super(400, message, messageKey);
    }
 }
 
 export class NotFoundError extends ServerError {
-   constructor(message = getMessage("NOT_FOUND_ERROR")) {
-      super(404, message);
+   constructor(message?: string, messageKey: MessageKey = "NOT_FOUND_ERROR") {
+      super(404, message, messageKey);
+   }
+}
+
+export class MethodNotAllowedError extends ServerError {
+   constructor(
+      message?: string,
+      messageKey: MessageKey = "METHOD_NOT_ALLOWED_ERROR"
+   ) {
+      super(405, message, messageKey);
+   }
+}
+
+export class ConflictError extends ServerError {
+   constructor(message?: string, messageKey: MessageKey = "CONFLICT_ERROR") {
+      super(409, message, messageKey);
+   }
+}
+
+export class PreconditionFailedError extends ServerError {
+   constructor(
+      message?: string,
+      messageKey: MessageKey = "PRECONDITION_FAILED_ERROR"
+   ) {
+      super(412, message, messageKey);
    }
 }
 
 export class InternalServerError extends ServerError {
-   constructor(message = getMessage("INTERNAL_ERROR")) {
-      super(500, message);
+   constructor(message?: string, messageKey: MessageKey = "INTERNAL_ERROR") {
+      super(500, message, messageKey);
    }
 }
 
 export class TimeoutError extends ServerError {
-   constructor(message = getMessage("TIMEOUT_ERROR")) {
-      super(408, message);
+   constructor(message?: string, messageKey: MessageKey = "TIMEOUT_ERROR") {
+      super(408, message, messageKey);
+   }
+}
+
+export class PayloadTooLargeError extends ServerError {
+   constructor(
+      message?: string,
+      messageKey: MessageKey = "PAYLOAD_TOO_LARGE_ERROR"
+   ) {
+      super(413, message, messageKey);
+   }
+}
+
+export class UnsupportedMediaTypeError extends ServerError {
+   constructor(
+      message?: string,
+      messageKey: MessageKey = "UNSUPPORTED_MEDIA_TYPE_ERROR"
+   ) {
+      super(415, message, messageKey);
+   }
+}
+
+export class TooManyRequestsError extends ServerError {
+   constructor(
+      message?: string,
+      messageKey: MessageKey = "TOO_MANY_REQUESTS_ERROR"
+   ) {
+      super(429, message, messageKey);
    }
 }
 
 type ErrorMeta = {
    url: string;
    method: string;
+   /** `handle()`에서 발급한 요청 ID (`x-request-id`) */
+   requestId?: string;
    body?: Record<string, any>;
+   /** zod 검증 실패 시 필드 경로(`address.city`)별 메시지 목록 */
+   fieldErrors?: Record<string, string[]>;
 };
 
 export type ErrorResponse<T = ErrorMeta> = {
@@ -60,24 +135,103 @@ export type ErrorResponse<T = ErrorMeta> = {
    error: T;
 };
 
-type ErrorHandler<T = ErrorMeta> = (
+export type ErrorHandler<T = ErrorMeta> = (
    error: unknown,
    req: Request
 ) => Promise<ErrorResponse<T>>;
 
+/**
+ * 에러 응답을 만들 때 사용할 메시지, 에러 핸들러, Logger입니다.
+ * 클라이언트 인스턴스가 자신의 값으로 채워 전달합니다.
+ */
+export type ErrorRuntime = {
+   getMessage: MessageGetter;
+   errorHandler?: ErrorHandler<unknown>;
+   logger?: Logger;
+};
+
 let globalErrorHandler: ErrorHandler<any> | undefined;
 
-export function setGlobalErrorHandler<T = ErrorMeta>(handler: ErrorHandler<T>) {
+/**
+ * 기본 인스턴스와 `handleServerError`가 사용할 에러 핸들러를 지정합니다. 생략하면 기본 에러 응답으로 되돌립니다.
+ */
+export function setGlobalErrorHandler<T = ErrorMeta>(
+   handler?: ErrorHandler<T>
+) {
    globalErrorHandler = handler;
 }
 
+export function getGlobalErrorHandler(): ErrorRuntime["errorHandler"] {
+   return globalErrorHandler;
+}
+
+/**
+ * zod 이슈를 필드 경로별 메시지 목록으로 묶습니다. 경로가 없는 이슈는 "" 키에 담깁니다.
+ */
+export function toFieldErrors(error: ZodError): Record<string, string[]> {
+   // `constructor` 같은 경로가 Object.prototype 값과 겹치지 않도록 프로토타입 없는 객체에 담습니다.
+   const fieldErrors: Record<string, string[]> = Object.create(null);
+   for (const issue of error.errors) {
+      const path = issue.path.join(".");
+      (fieldErrors[path] ??= []).push(issue.message);
+   }
+   return fieldErrors;
+}
+
+function toErrorResponse(
+   error: unknown,
+   data: ErrorMeta,
+   getMessage: MessageGetter
+): ErrorResponse {
+   if (error instanceof ZodError) {
+      return {
+         code: 400,
+         message: error.errors[0]?.message || getMessage("VALIDATION_ERROR"),
+         error: { ...data, fieldErrors: toFieldErrors(error) },
+      };
+   }
+
+   if (error instanceof ServerError) {
+      return {
+         code: error.code,
+         message: error.messageKey
+            ? getMessage(error.messageKey)
+            : error.message,
+         error: data,
+      };
+   }
+
+   return {
+      code: 500,
+      message: getMessage("UNKNOWN_ERROR"),
+      error: data,
+   };
+}
+
+/**
+ * 에러를 응답 형식(`ErrorResponse`)으로 변환합니다.
+ *
+ * @param runtime - 생략하면 전역 메시지, `setGlobalErrorHandler`, `setLogger` 설정을 사용합니다.
+ */
 export async function handleServerError(
    error: unknown,
-   req: Request
+   req: Request,
+   runtime?: ErrorRuntime
 ): Promise<ErrorResponse> {
+   const {
+      getMessage: message,
+      errorHandler,
+      logger = getLogger(),
+   }: ErrorRuntime = runtime ?? {
+      getMessage,
+      errorHandler: globalErrorHandler,
+   };
+
+   const requestId = getRequestId(req);
    const fallbackData: ErrorMeta = {
       url: req.url,
       method: req.method,
+      ...(requestId ? { requestId } : {}),
    };
 
    const parsedBody = await req.json().catch(() => undefined);
@@ -88,11 +242,15 @@ export async function handleServerError(
          : {}),
    };
 
-   if (globalErrorHandler) {
+   if (errorHandler) {
       try {
-         return await globalErrorHandler(error, req);
+         return (await errorHandler(error, req)) as ErrorResponse;
       } catch (e) {
-         console.error("💥 Global error handler failure", e);
+         logger.error("💥 Global error handler failure", {
+            ...fallbackData,
+            error: e,
+            cause: error,
+         });
          return {
             code: 500,
             message: JSON.stringify(e),
@@ -101,27 +259,15 @@ export async function handleServerError(
       }
    }
 
-   console.error("[Server Error]", error);
-
-   if (error instanceof ZodError) {
-      return {
-         code: 400,
-         message: error.errors[0]?.message || getMessage("VALIDATION_ERROR"),
-         error: data,
-      };
-   }
+   const errorResponse = toErrorResponse(error, data, message);
 
-   if (error instanceof ServerError) {
-      return {
-         code: error.code,
-         message: error.message,
-         error: data,
-      };
-   }
+   // 4xx는 클라이언트 요청 문제이므로 warn, 5xx만 error 레벨로 남깁니다.
+   const level = errorResponse.code >= 500 ? "error" : "warn";
+   logger[level]("[Server Error]", {
+      ...fallbackData,
+      code: errorResponse.code,
+      error,
+   });
 
-   return {
-      code: 500,
-      message: getMessage("UNKNOWN_ERROR"),
-      error: data,
-   };
+   return errorResponse;
 }
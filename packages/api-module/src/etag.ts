@@ -0,0 +1,104 @@
+/**
+ * @file etag.ts
+ * @author 심명보 (https://github.com/jerry-sb)
+ * @description ETag / Last-Modified 기반 조건부 요청(304, 412) 처리 유틸
+ *
+ * 사용법
+ * getClient()
+ *    .etag()
+ *    .handle(async () => result(post, { version: post.version, lastModified: post.updatedAt }));
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { digest, toBase64Url } from "./web-crypto";
+
+export type ETagOptions<Ctx> = {
+   /** `Cache-Control` 헤더가 없을 때 설정할 값 (기본값 "private, no-cache") */
+   cacheControl?: string;
+   /** 본문 해시로 만든 ETag를 약한 검증자(`W/`)로 표시합니다. (기본값 false) */
+   weak?: boolean;
+   /**
+    * PUT/PATCH 요청의 `If-Match` 비교에 사용할 현재 리소스 버전입니다.
+    * 지정하지 않으면 `If-Match`를 검사하지 않습니다.
+    */
+   currentVersion?: (
+      req: NextRequest,
+      context: Ctx
+   ) =>
+      | string
+      | number
+      | undefined
+      | null
+      | Promise<string | number | undefined | null>;
+};
+
+export const DEFAULT_CACHE_CONTROL = "private, no-cache";
+
+/**
+ * 버전 값을 ETag 헤더 형식(`"version"`)으로 만듭니다.
+ */
+export function formatETag(version: string | number, weak = false): string {
+   return `${weak ? "W/" : ""}"${String(version).replace(/"/g, "")}"`;
+}
+
+/**
+ * 직렬화된 응답 본문의 해시로 ETag를 만듭니다.
+ */
+export async function hashETag(body: string, weak = false): Promise<string> {
+   return formatETag(toBase64Url(await digest("SHA-1", body)), weak);
+}
+
+/**
+ * `If-None-Match`/`If-Match` 헤더 값이 ETag와 일치하는지 비교합니다.
+ *
+ * @param strong - true 이면 약한 ETag(`W/`)는 일치하지 않는 것으로 봅니다. (`If-Match`용)
+ */
+export function matchesETag(
+   header: string,
+   etag: string,
+   strong = false
+): boolean {
+   if (header.trim() === "*") return true;
+   if (strong && etag.startsWith("W/")) return false;
+
+   const target = etag.replace(/^W\//, "");
+   return header
+      .split(",")
+      .map((tag) => tag.trim())
+      .some(
+         (tag) =>
+            !(strong && tag.startsWith("W/")) &&
+            tag.replace(/^W\//, "") === target
+      );
+}
+
+/**
+ * 응답 헤더의 ETag/Last-Modified 기준으로 클라이언트 캐시가 최신인지 확인합니다.
+ * `If-None-Match`가 있으면 `If-Modified-Since`는 무시합니다.
+ */
+export function isNotModified(req: NextRequest, headers: Headers): boolean {
+   const ifNoneMatch = req.headers.get("if-none-match");
+   const etag = headers.get("etag");
+   if (ifNoneMatch) return !!etag && matchesETag(ifNoneMatch, etag);
+
+   const ifModifiedSince = Date.parse(
+      req.headers.get("if-modified-since") ?? ""
+   );
+   const lastModified = Date.parse(headers.get("last-modified") ?? "");
+   if (Number.isNaN(ifModifiedSince) || Number.isNaN(lastModified)) {
+      return false;
+   }
+   return lastModified <= ifModifiedSince;
+}
+
+/**
+ * 본문 없이 캐시 관련 헤더만 담은 304 응답을 만듭니다.
+ */
+export function notModifiedResponse(response: Response): NextResponse {
+   const headers = new Headers();
+   ["etag", "last-modified", "cache-control", "vary"].forEach((name) => {
+      const value = response.headers.get(name);
+      if (value) headers.set(name, value);
+   });
+   return new NextResponse(null, { status: 304, headers });
+}
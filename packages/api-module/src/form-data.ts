@@ -0,0 +1,122 @@
+/**
+ * @file form-data.ts
+ * @author 심명보 (https://github.com/jerry-sb)
+ * @description multipart/form-data 요청의 텍스트 필드와 파일을 분리하고 파일 제한(크기, 개수, MIME)을 검사합니다.
+ */
+
+import { NextRequest } from "next/server";
+import { PayloadTooLargeError, ValidationError } from "./error";
+
+/**
+ * 파일 필드별 업로드 제한 규칙
+ */
+export type FileRule = {
+   /** 파일 하나의 최대 크기 (byte) */
+   maxSize?: number;
+   /** 최대 파일 개수 (기본값 1) */
+   maxCount?: number;
+   /** 허용 MIME 타입 (예: "image/png", "image/*") */
+   mimeTypes?: string[];
+   /** true 이면 최소 1개의 파일이 필요합니다. */
+   required?: boolean;
+};
+
+export type FormDataOptions<F extends string> = {
+   files?: Record<F, FileRule>;
+   /**
+    * 요청 본문 전체의 최대 크기 (byte), `Content-Length`가 넘으면 본문을 읽지 않고 413으로 응답합니다.
+    * 기본값은 파일 규칙의 `maxSize × maxCount` 합계에 텍스트 필드용 1MB를 더한 값이며,
+    * `maxSize`가 없는 파일 규칙이 있으면 제한하지 않습니다.
+    */
+   maxBodySize?: number;
+};
+
+export type FormDataContext<T, F extends string> = {
+   fields: T;
+   files: Record<F, File[]>;
+};
+
+function matchMimeType(type: string, allowed: string[]): boolean {
+   return allowed.some((pattern) =>
+      pattern.endsWith("/*")
+         ? type.startsWith(pattern.slice(0, -1))
+         : type === pattern
+   );
+}
+
+function checkFiles(files: File[], rule: FileRule) {
+   if (rule.required && files.length === 0) {
+      throw new ValidationError();
+   }
+
+   if (files.length > (rule.maxCount ?? 1)) {
+      throw new PayloadTooLargeError(undefined, "FILE_COUNT_ERROR");
+   }
+
+   for (const file of files) {
+      if (rule.maxSize !== undefined && file.size > rule.maxSize) {
+         throw new PayloadTooLargeError();
+      }
+      if (rule.mimeTypes && !matchMimeType(file.type, rule.mimeTypes)) {
+         throw new ValidationError(undefined, "FILE_TYPE_ERROR");
+      }
+   }
+}
+
+/** 기본 본문 크기 제한에 더하는 텍스트 필드와 multipart 헤더용 여유분 (1MB) */
+const FIELDS_SIZE_ALLOWANCE = 1024 * 1024;
+
+function defaultMaxBodySize(rules: FileRule[]): number | undefined {
+   let total = FIELDS_SIZE_ALLOWANCE;
+   for (const rule of rules) {
+      if (rule.maxSize === undefined) return undefined;
+      total += rule.maxSize * (rule.maxCount ?? 1);
+   }
+   return total;
+}
+
+/**
+ * 요청의 form data를 읽어 텍스트 필드와 파일로 분리합니다.
+ * 같은 이름의 텍스트 필드가 여러 개면 배열로 묶고, `options.files`에 선언되지 않은 파일은 무시합니다.
+ */
+export async function readFormData<F extends string>(
+   req: NextRequest,
+   options: FormDataOptions<F> = {}
+): Promise<{ fields: Record<string, unknown>; files: Record<F, File[]> }> {
+   const rules = (options.files ?? {}) as Record<F, FileRule>;
+   const maxBodySize =
+      options.maxBodySize ?? defaultMaxBodySize(Object.values<FileRule>(rules));
+   const contentLength = Number(req.headers.get("content-length"));
+   if (maxBodySize !== undefined && contentLength > maxBodySize) {
+      throw new PayloadTooLargeError();
+   }
+
+   const formData = await req.formData().catch(() => {
+      throw new ValidationError();
+   });
+
+   const fields: Record<string, unknown> = Object.create(null);
+   const files = Object.fromEntries(
+      Object.keys(rules).map((name) => [name, [] as File[]])
+   ) as Record<F, File[]>;
+
+   for (const [name, value] of formData.entries()) {
+      if (typeof value !== "string") {
+         if (Object.hasOwn(rules, name)) files[name as F].push(value);
+         continue;
+      }
+
+      const prev = fields[name];
+      if (prev === undefined) {
+         fields[name] = value;
+      } else {
+         fields[name] = Array.isArray(prev) ? [...prev, value] : [prev, value];
+      }
+   }
+
+   for (const name of Object.keys(rules) as F[]) {
+      checkFiles(files[name], rules[name]);
+   }
+
+   return { fields, files };
+}
@@ -10,8 +10,73 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { handleServerError } from "./error";
-import { ClientInstanceOptions } from "./client";
+import {
+   ConflictError,
+   handleServerError,
+   InternalServerError,
+   PreconditionFailedError,
+   ServerError,
+   TimeoutError,
+   TooManyRequestsError,
+   ValidationError,
+} from "./error";
+import type { ApiClient, ClientInstanceOptions, HookContext } from "./client";
+import { Auth, authRegistry, StrategyContext } from "./auth";
+import { HandlerResult, isRouteResult, PageInfo, toResponse } from "./response";
+import {
+   FileRule,
+   FormDataContext,
+   FormDataOptions,
+   readFormData,
+} from "./form-data";
+import { BodyContentType, readBody, VerifyBodyOptions } from "./body";
+import { createCursorParams, CursorParams, decodeCursor } from "./cursor";
+import {
+   applyCorsHeaders,
+   CorsOptions,
+   createPreflightResponse,
+   isPreflightRequest,
+} from "./cors";
+import {
+   consumeRateLimit,
+   getClientIp,
+   MemoryRateLimitStore,
+   RateLimitAlgorithm,
+   RateLimitOptions,
+   setRateLimitHeaders,
+} from "./rate-limit";
+import {
+   DEFAULT_IDEMPOTENCY_LOCK_TTL,
+   DEFAULT_IDEMPOTENCY_TTL,
+   hashRequestBody,
+   IdempotencyOptions,
+   MemoryIdempotencyStore,
+   readStoredResponse,
+   sessionScope,
+} from "./idempotency";
+import {
+   DEFAULT_CACHE_CONTROL,
+   ETagOptions,
+   formatETag,
+   hashETag,
+   isNotModified,
+   matchesETag,
+   notModifiedResponse,
+} from "./etag";
+import {
+   getLogger,
+   Logger,
+   REQUEST_ID_HEADER,
+   resolveRequestId,
+} from "./logger";
+import { container, Token, TokenType } from "./container";
+import type { PluginMiddleware } from "./middleware";
+import {
+   ActionInput,
+   createActionRequest,
+   readActionResult,
+   ServerAction,
+} from "./action";
 
 export type Response<T> = NextResponse<{
    code: number;
@@ -19,16 +84,45 @@ export type Response<T> = NextResponse<{
    data?: T;
 }>;
 
-export type PaginationParams = {
+export type PaginatedResponse<T> = NextResponse<
+   {
+      code: number;
+      message: string;
+      data: T[];
+   } & PageInfo
+>;
+
+export type SortOrder = "asc" | "desc";
+
+export type PaginationParams<TSort extends string = string> = {
    pageIndex: number;
    pageSize: number;
    skip: number;
-   sortBy: string;
-   sortOrder: "asc" | "desc";
+   sortBy: TSort;
+   sortOrder: SortOrder;
+};
+
+export type PaginationOptions<TSort extends string> = {
+   /** 기본 페이지 크기 (기본값 10) */
+   defaultPageSize?: number;
+   /** 최대 페이지 크기, 초과하면 이 값으로 제한됩니다. (기본값 100) */
+   maxPageSize?: number;
+   /** 정렬 가능한 필드 목록, 지정하면 그 외의 `sortBy`는 400 에러로 응답합니다. */
+   sortable?: readonly TSort[];
+   /** 기본 정렬 필드, `sortable`에 포함되어야 합니다. (기본값 `sortable[0]` 또는 "createdAt") */
+   defaultSort?: NoInfer<TSort>;
+   /** 기본 정렬 방향 (기본값 "asc") */
+   defaultSortOrder?: SortOrder;
 };
 
 export type BaseContext<PARAM, SESSION, BODY, EXTRA> = {
    params: PARAM;
+   /** 요청 제한 시간 초과 시 abort 되는 signal (DB, fetch 취소용) */
+   signal: AbortSignal;
+   /** `x-request-id` 헤더 값 또는 새로 발급한 요청 ID */
+   requestId: string;
+   /** DI 컨테이너에서 인스턴스를 조회합니다. `request` 범위 인스턴스는 요청이 끝나면 dispose 됩니다. */
+   resolve: <T>(token: Token<T>) => T;
 } & BODY &
    SESSION &
    EXTRA;
@@ -42,20 +136,128 @@ export type Middleware<TData, P, S, B, E> = (
    ) => Promise<Response<TData>>
 ) => Promise<Response<TData> | void>;
 
+export type CursorPaginationOptions<Schema> = {
+   /** 커서 값을 검증할 zod 스키마 */
+   schema?: Schema;
+   /** 기본 조회 개수 (기본값 20) */
+   defaultLimit?: number;
+   /** 최대 조회 개수 (기본값 100) */
+   maxLimit?: number;
+   /** 커서 서명 키 (기본값 `ClientInstanceOptions.cursorKey`) */
+   secret?: string;
+};
+
+export type VerifyResponseOptions = {
+   /**
+    * 개발 환경(`NODE_ENV !== "production"`)에서 검증 실패 시 500 대신 경고 로그만 남깁니다.
+    * production 에서는 항상 500 으로 처리됩니다.
+    */
+   logOnly?: boolean;
+};
+
+/**
+ * 라우트 체인에 등록된 설정 정보입니다.
+ * 미들웨어 클로저 밖에서 참조해야 하는 값들을 보관합니다.
+ */
+export type RouteMeta = {
+   body?: {
+      schema: z.ZodTypeAny;
+      contentTypes?: BodyContentType[];
+   };
+   formData?: {
+      schema: z.ZodTypeAny;
+      files: Record<string, FileRule>;
+   };
+   params?: z.ZodTypeAny;
+   query?: z.ZodTypeAny;
+   headers?: z.ZodTypeAny;
+   cookies?: z.ZodTypeAny;
+   pagination?: {
+      query: ClientInstanceOptions["pagination"];
+      defaultPageSize: number;
+      maxPageSize: number;
+      sortable?: readonly string[];
+      defaultSort: string;
+   };
+   cursor?: {
+      query: { cursor: string; limit: string };
+      defaultLimit: number;
+      maxLimit: number;
+   };
+   auth?: Auth[];
+   rateLimit?: {
+      limit: number;
+      window: number;
+      algorithm: RateLimitAlgorithm;
+   };
+   idempotent?: {
+      ttl: number;
+   };
+   response?: {
+      schema: z.ZodTypeAny;
+      options: VerifyResponseOptions;
+   };
+   etag?: {
+      weak: boolean;
+      /** PUT/PATCH 요청의 `If-Match`를 검사하는지 여부 (불일치하면 412) */
+      ifMatch: boolean;
+   };
+   /** `handle()` 시점의 제한 시간 (ms, 초과하면 408) */
+   timeout?: number;
+   /** `handle()` 시점의 CORS 설정 (`defineRoute()`의 preflight가 메서드별 설정을 따르도록 기록) */
+   cors?: CorsOptions;
+   /** `defineRoute()`로 정의한 경로의 허용 메서드 (그 외 메서드는 405) */
+   allow?: string[];
+};
+
+/**
+ * 라우트 빌더가 사용하는 설정입니다.
+ * `createClient()` 인스턴스로 만든 라우트는 `client`(메시지, 인증 전략, 에러 핸들러)를 가집니다.
+ */
+export type RouteOptions = ClientInstanceOptions & {
+   client?: ApiClient;
+};
+
 export interface RouteHandler<TData, P, S, B, E> {
+   options: RouteOptions;
    middlewares: Middleware<TData, P, S, B, E>[];
+   meta: RouteMeta;
 
    /**
     * 요청의 body를 zod 스키마로 검증하는 미들웨어를 등록합니다.
     * 이 미들웨어를 사용하면 `context.body`에 검증된 데이터를 안전하게 사용할 수 있습니다.
+    * 본문은 `Content-Type`에 따라 JSON, urlencoded, text로 파싱되며,
+    * 허용되지 않은 타입은 415, 잘못된 JSON은 400 에러로 응답합니다.
     *
     * @param schema - zod 스키마 객체
+    * @param options - 허용할 Content-Type 목록 (기본값 JSON)
     * @returns 새로운 RouteHandler 인스턴스
     */
-   verifyBody: <Schema extends z.ZodType<any, any>>(
-      schema: Schema
+   verifyBody: <Schema extends z.ZodTypeAny>(
+      schema: Schema,
+      options?: VerifyBodyOptions
    ) => RouteHandler<TData, P, S, B & { body: z.infer<Schema> }, E>;
 
+   /**
+    * multipart/form-data 요청을 검증하는 미들웨어를 등록합니다.
+    * 텍스트 필드는 zod 스키마로 검증되어 `context.form.fields`에,
+    * `options.files`에 선언한 파일은 크기/개수/MIME 검사 후 `context.form.files`에 주입됩니다.
+    *
+    * @param schema - 텍스트 필드용 zod 스키마 객체
+    * @param options - 파일 필드별 업로드 제한 규칙과 본문 전체 크기 제한
+    * @returns 새로운 RouteHandler 인스턴스
+    */
+   verifyFormData: <Schema extends z.ZodTypeAny, F extends string = never>(
+      schema: Schema,
+      options?: FormDataOptions<F>
+   ) => RouteHandler<
+      TData,
+      P,
+      S,
+      B,
+      E & { form: FormDataContext<z.infer<Schema>, F> }
+   >;
+
    /**
     * 동적 라우트의 params를 zod 스키마로 검증하는 미들웨어를 등록합니다.
     * 이 미들웨어를 사용하면 `context.params`에 타입 안전한 params가 주입됩니다.
@@ -63,7 +265,7 @@ export interface RouteHandler<TData, P, S, B, E> {
     * @param schema - zod 스키마 객체
     * @returns 새로운 RouteHandler 인스턴스
     */
-   verifyParams: <Schema extends z.ZodType<any, any>>(
+   verifyParams: <Schema extends z.ZodTypeAny>(
       schema: Schema
    ) => RouteHandler<TData, z.infer<Schema>, S, B, E>;
 
@@ -74,40 +276,338 @@ export interface RouteHandler<TData, P, S, B, E> {
     * @param schema - zod 스키마 객체
     * @returns 새로운 RouteHandler 인스턴스
     */
-   verifyQuery: <Schema extends z.ZodType<any, any>>(
+   verifyQuery: <Schema extends z.ZodTypeAny>(
       schema: Schema
    ) => RouteHandler<TData, P, S, B, E & { query: z.infer<Schema> }>;
 
+   /**
+    * 요청 헤더를 zod 스키마로 검증하는 미들웨어를 등록합니다.
+    * 헤더 이름은 소문자로 전달되며, `context.headers`를 통해 안전하게 사용할 수 있습니다.
+    *
+    * @param schema - zod 스키마 객체
+    * @returns 새로운 RouteHandler 인스턴스
+    */
+   verifyHeaders: <Schema extends z.ZodTypeAny>(
+      schema: Schema
+   ) => RouteHandler<TData, P, S, B, E & { headers: z.infer<Schema> }>;
+
+   /**
+    * 요청 쿠키를 zod 스키마로 검증하는 미들웨어를 등록합니다.
+    * 이 미들웨어를 사용하면 `context.cookies`를 통해 안전하게 사용할 수 있습니다.
+    *
+    * @param schema - zod 스키마 객체
+    * @returns 새로운 RouteHandler 인스턴스
+    */
+   verifyCookies: <Schema extends z.ZodTypeAny>(
+      schema: Schema
+   ) => RouteHandler<TData, P, S, B, E & { cookies: z.infer<Schema> }>;
+
    /**
     * 페이지네이션 관련 쿼리 파라미터(`pageIndex`, `pageSize`, `sortBy`, `sortOrder`)를 자동으로 처리하는 미들웨어를 등록합니다.
     * 해당 값은 `context.pagination`으로 전달됩니다.
+    * `sortable`을 지정하면 `sortBy`가 허용 목록의 유니온 타입으로 좁혀집니다.
+    * handler에서 `paginated(items, totalCount)`를 반환하면 응답에 페이지 정보가 함께 담깁니다.
     *
+    * @param options - 기본/최대 페이지 크기, 정렬 허용 목록, 기본 정렬
     * @returns 새로운 RouteHandler 인스턴스
     */
-   pagination: () => RouteHandler<
+   pagination: <TSort extends string = string>(
+      options?: PaginationOptions<TSort>
+   ) => RouteHandler<
       TData,
       P,
       S,
       B,
-      E & { pagination: PaginationParams }
+      E & { pagination: PaginationParams<TSort> }
    >;
 
+   /**
+    * 커서 기반(keyset) 페이지네이션 쿼리 파라미터(`cursor`, `limit`)를 처리하는 미들웨어를 등록합니다.
+    * 서명된 커서를 검증/디코딩하여 `context.cursor`로 전달하며,
+    * `context.cursor.paginate(items, toCursor)`로 응답에 담을 `nextCursor`를 만들 수 있습니다.
+    * 변조되었거나 스키마와 맞지 않는 커서는 400 에러로 응답합니다.
+    *
+    * @param options - 커서 스키마, 기본/최대 조회 개수, 서명 키
+    * @returns 새로운 RouteHandler 인스턴스
+    */
+   cursorPagination: <
+      Schema extends z.ZodTypeAny = z.ZodType<Record<string, unknown>>,
+   >(
+      options?: CursorPaginationOptions<Schema>
+   ) => RouteHandler<
+      TData,
+      P,
+      S,
+      B,
+      E & { cursor: CursorParams<z.infer<Schema>> }
+   >;
+
+   /**
+    * 등록된 인증 전략(`registerStrategy`)을 실행하는 미들웨어를 등록합니다.
+    * 인증에 실패하면 전략의 `errorResponse`를 그대로 반환하고,
+    * 성공하면 전략의 결과(예: `session`)가 `context`에 병합됩니다.
+    *
+    * @param strategy - 인증 전략 키 (예: "session", "internal")
+    * @typeParam TSession - 세션 객체 타입
+    * @returns 새로운 RouteHandler 인스턴스
+    */
+   auth: <A extends Auth, TSession = unknown>(
+      strategy: A
+   ) => RouteHandler<TData, P, S & StrategyContext<A, TSession>, B, E>;
+
+   /**
+    * 키(기본값 클라이언트 IP)별로 요청 횟수를 제한하는 미들웨어를 등록합니다.
+    * 제한을 넘으면 429(`TooManyRequestsError`)로 응답하며,
+    * 모든 응답에 `RateLimit-*` 헤더를, 429 응답에는 `Retry-After` 헤더를 추가합니다.
+    * `auth()` 이후에 등록하면 `key` 함수에서 `context.session`을 사용할 수 있습니다.
+    *
+    * @param options - 키 함수(또는 신뢰하는 프록시 수), 허용 횟수, 윈도우(ms), 알고리즘, 저장소
+    * @returns 새로운 RouteHandler 인스턴스
+    */
+   rateLimit: (
+      options: RateLimitOptions<BaseContext<P, S, B, E>>
+   ) => RouteHandler<TData, P, S, B, E>;
+
+   /**
+    * `Idempotency-Key` 헤더로 중복 요청을 막는 미들웨어를 등록합니다.
+    * 처음 응답(상태 코드 + JSON envelope)을 키, 라우트, 세션 기준으로 저장하고 재요청 시 그대로 반환합니다.
+    * 같은 키가 다른 본문으로 들어오거나 처음 요청이 아직 처리 중이면 409(`ConflictError`)로 응답합니다.
+    * 헤더가 없는 요청과 5xx 응답은 저장하지 않습니다.
+    *
+    * @param options - 저장소, 응답 보관 시간과 처리 중 잠금 시간(ms), 사용자 범위
+    * @returns 새로운 RouteHandler 인스턴스
+    */
+   idempotent: (
+      options?: IdempotencyOptions<BaseContext<P, S, B, E>>
+   ) => RouteHandler<TData, P, S, B, E>;
+
+   /**
+    * 조건부 요청을 처리하는 미들웨어를 등록합니다.
+    * 200 응답에 `ETag`(handler가 `version`을 지정하지 않으면 본문 해시)와 `Cache-Control`을 설정하고,
+    * GET/HEAD 요청의 `If-None-Match`/`If-Modified-Since`가 일치하면 본문 없이 304로 응답합니다.
+    * `currentVersion`을 지정하면 PUT/PATCH 요청의 `If-Match`가 다를 때 412(`PreconditionFailedError`)로 응답합니다.
+    *
+    * @param options - Cache-Control, weak ETag 여부, 현재 리소스 버전 조회 함수
+    * @returns 새로운 RouteHandler 인스턴스
+    */
+   etag: (
+      options?: ETagOptions<BaseContext<P, S, B, E>>
+   ) => RouteHandler<TData, P, S, B, E>;
+
+   /**
+    * DI 컨테이너에서 조회한 인스턴스를 `context`에 주입하는 미들웨어를 등록합니다.
+    *
+    * @param tokens - context 키와 토큰(클래스 또는 `InjectionToken`)의 맵
+    * @returns 새로운 RouteHandler 인스턴스
+    */
+   inject: <M extends Record<string, Token<unknown>>>(
+      tokens: M
+   ) => RouteHandler<TData, P, S, B, E & { [K in keyof M]: TokenType<M[K]> }>;
+
+   /**
+    * `defineMiddleware()`로 만든 미들웨어를 등록합니다.
+    * 미들웨어가 `next`에 추가한 값은 `context`에 병합되어 타입이 확장되고,
+    * `NextResponse`를 반환하면 이후 미들웨어와 handler를 실행하지 않습니다.
+    * 미들웨어가 요구하는 context 값(`Requires`)이 없으면 타입 에러가 발생합니다.
+    *
+    * @param middleware - `defineMiddleware()`로 만든 미들웨어
+    * @returns 새로운 RouteHandler 인스턴스
+    */
+   use: <Added extends object>(
+      middleware: PluginMiddleware<Added, BaseContext<P, S, B, E>>
+   ) => RouteHandler<TData, P, S, B, E & Added>;
+
+   /**
+    * handler의 반환값을 zod 스키마로 검증(parse)합니다.
+    * 스키마에 정의되지 않은 필드는 제거되며, 검증에 실패하면 500 에러로 응답합니다.
+    * 응답 데이터 타입(`TData`)은 스키마로부터 추론됩니다.
+    *
+    * @param schema - zod 스키마 객체
+    * @param options - 검증 옵션
+    * @returns 새로운 RouteHandler 인스턴스
+    */
+   verifyResponse: <Schema extends z.ZodTypeAny>(
+      schema: Schema,
+      options?: VerifyResponseOptions
+   ) => RouteHandler<z.output<Schema>, P, S, B, E>;
+
+   /**
+    * 해당 라우트의 제한 시간(ms)을 지정합니다. `ClientInstanceOptions.timeout`보다 우선합니다.
+    * 0 이하의 값을 주면 제한 시간을 적용하지 않습니다.
+    *
+    * @param ms - 제한 시간 (밀리초)
+    * @returns 새로운 RouteHandler 인스턴스
+    */
+   timeout: (ms: number) => RouteHandler<TData, P, S, B, E>;
+
+   /**
+    * 이 라우트의 CORS 설정을 지정합니다. `ClientInstanceOptions.cors`에 덮어씌워 적용됩니다.
+    * 성공/에러 응답 모두에 `Access-Control-*` 헤더가 추가되고,
+    * preflight(OPTIONS) 요청은 미들웨어를 실행하지 않고 204로 응답합니다.
+    *
+    * @param overrides - 허용 Origin, 자격 증명, 노출 헤더, max-age 등
+    * @returns 새로운 RouteHandler 인스턴스
+    */
+   cors: (overrides: CorsOptions) => RouteHandler<TData, P, S, B, E>;
+
    /**
     * 요청을 최종 처리하는 handler 함수를 정의합니다.
     * 등록된 모든 미들웨어를 순차적으로 실행하고, 마지막에 해당 handler가 실행됩니다.
+    * handler는 데이터를 그대로 반환하거나, `created`/`noContent`/`withHeaders` 등의 헬퍼로
+    * 상태 코드와 헤더를 지정하거나, `NextResponse`를 직접 반환할 수 있습니다.
+    * 전체 실행이 제한 시간을 넘기면 408(`TimeoutError`) 응답을 반환하고 `context.signal`을 abort 합니다.
+    * CORS 설정이 있으면 preflight 요청에 응답하고 모든 응답에 CORS 헤더를 추가합니다.
+    * 모든 응답에는 `context.requestId`와 같은 값의 `x-request-id` 헤더가 추가됩니다.
+    * 클라이언트에 등록된 `hooks`(`onRequest`, `onResponse`, `onError`)도 이 과정에서 호출됩니다.
+    * handler 실행이 끝나면(제한 시간 초과로 먼저 응답한 경우에도) `request` 범위로 생성된 DI 인스턴스를 dispose 합니다.
     *
     * @param handler - 최종 핸들러 함수
-    * @returns Next.js App Router용 핸들러 함수
+    * @returns Next.js App Router용 핸들러 함수 (`meta` 포함)
     */
    handle: (
       handler: (
          req: NextRequest,
          context: BaseContext<P, S, B, E>
-      ) => Promise<TData>
-   ) => (
-      req: NextRequest,
-      context: { params: Promise<P> }
-   ) => Promise<Response<TData>>;
+      ) => Promise<HandlerResult<TData>>
+   ) => RouteFunction<TData, P, S, B, E>;
+
+   /**
+    * Server Action용 handler 함수를 정의합니다. `handle()`과 같은 미들웨어(검증, 인증, 훅, 제한 시간)를 실행하고
+    * HTTP 응답 대신 `{ ok: true, data }` 또는 `{ ok: false, error }`를 반환합니다.
+    * 입력은 객체 또는 `FormData`로 받으며, `verifyBody()`에는 `FormData`가 객체로 변환되어 전달됩니다.
+    * 요청 헤더(쿠키 포함)는 `next/headers`에서 읽으며, 응답 헤더와 쿠키는 무시됩니다.
+    * zod 검증에 실패하면 `error.error.fieldErrors`에 필드별 메시지가 담깁니다.
+    *
+    * @param handler - 최종 핸들러 함수
+    * @returns Server Action 함수
+    */
+   action: (
+      handler: (
+         context: BaseContext<P, S, B, E>
+      ) => Promise<HandlerResult<TData>>
+   ) => ServerAction<ActionInput<B>, TData>;
+}
+
+/**
+ * `handle()`이 반환하는 Next.js App Router용 핸들러 함수입니다.
+ * `meta`에 체인에 등록된 스키마/인증 정보가 담겨 있어 OpenAPI 문서 생성 등에 사용됩니다.
+ * `__types`는 런타임 값이 없는 타입 전용 필드로, `InferRoute`에서 요청/응답 타입을 추론할 때 사용됩니다.
+ */
+export type RouteFunction<TData, P, S = unknown, B = unknown, E = unknown> = ((
+   req: NextRequest,
+   context: { params: Promise<P> }
+) => Promise<Response<TData>>) & {
+   meta: RouteMeta;
+   readonly __types?: {
+      data: TData;
+      params: P;
+      session: S;
+      body: B;
+      extra: E;
+   };
+};
+
+async function createErrorResponse<TData>(
+   error: unknown,
+   req: NextRequest,
+   client?: ApiClient
+): Promise<Response<TData>> {
+   const errorObj = client
+      ? await client.handleError(error, req)
+      : await handleServerError(error, req);
+
+   return NextResponse.json(errorObj, {
+      status: errorObj.code,
+      headers: error instanceof ServerError ? error.headers : undefined,
+   });
+}
+
+/**
+ * 실행 중인 요청을 제한 시간과 경쟁시킵니다.
+ * 제한 시간이 먼저 끝나면 controller를 abort 하고 `fail`로 만든 408 응답을 반환합니다.
+ */
+async function raceTimeout<TData>(
+   task: Promise<Response<TData>>,
+   controller: AbortController,
+   fail: (error: unknown) => Promise<Response<TData>>,
+   timeout?: number
+): Promise<Response<TData>> {
+   if (!timeout || timeout <= 0) return task;
+
+   let timer: ReturnType<typeof setTimeout> | undefined;
+   const deadline = new Promise<Response<TData>>((resolve) => {
+      timer = setTimeout(() => {
+         const error = new TimeoutError();
+         controller.abort(error);
+         resolve(fail(error));
+      }, timeout);
+   });
+
+   try {
+      // 제한 시간이 지난 뒤 끝난 handler의 응답보다 408 응답을 우선합니다.
+      return await Promise.race([
+         task.then((response) =>
+            controller.signal.aborted ? deadline : response
+         ),
+         deadline,
+      ]);
+   } finally {
+      clearTimeout(timer);
+   }
+}
+
+/**
+ * 클라이언트 훅을 실행합니다. 훅의 실패는 로그만 남기고 응답에 영향을 주지 않습니다.
+ */
+async function runHook(
+   name: string,
+   hook: () => void | Promise<void>,
+   logger: Logger
+) {
+   try {
+      await hook();
+   } catch (error) {
+      logger.error(`[Hook] ${name} failure`, { error });
+   }
+}
+
+function parseResponseData<TData>(
+   data: TData,
+   verifier: NonNullable<RouteMeta["response"]>,
+   logger: Logger
+): TData {
+   const parsed = verifier.schema.safeParse(data);
+   if (parsed.success) return parsed.data;
+
+   if (verifier.options.logOnly && process.env.NODE_ENV !== "production") {
+      logger.warn("[Response Validation]", { error: parsed.error });
+      return data;
+   }
+
+   logger.error("[Response Validation]", { error: parsed.error });
+   throw new InternalServerError();
+}
+
+/**
+ * `verifyResponse`로 등록된 스키마가 있으면 handler의 반환값을 검증합니다.
+ * `NextResponse`와 본문이 없는 응답은 검증하지 않습니다.
+ */
+function verifyResult<TData>(
+   value: HandlerResult<TData>,
+   verifier: RouteMeta["response"],
+   logger: Logger
+): HandlerResult<TData> {
+   if (!verifier || value instanceof NextResponse) return value;
+
+   if (isRouteResult(value)) {
+      if (value.empty) return value;
+      return {
+         ...value,
+         data: parseResponseData(value.data, verifier, logger),
+      };
+   }
+
+   return parseResponseData(value, verifier, logger);
 }
 
 function createRouteHandler<
@@ -117,20 +617,26 @@ function createRouteHandler<
    B = unknown,
    E = unknown,
 >(
-   options: ClientInstanceOptions,
-   middlewares: Middleware<TData, any, any, any, any>[] = []
+   options: RouteOptions,
+   middlewares: Middleware<TData, any, any, any, any>[] = [],
+   meta: RouteMeta = {}
 ): RouteHandler<TData, P, S, B, E> {
    return {
+      options,
       middlewares,
+      meta,
 
-      verifyBody<Schema extends z.ZodType<any, any>>(schema: Schema) {
+      verifyBody<Schema extends z.ZodTypeAny>(
+         schema: Schema,
+         bodyOptions?: VerifyBodyOptions
+      ) {
          const mw: Middleware<TData, P, S, B, E> = async (
             req,
             context,
             next
          ) => {
-            const jsonData = await req.json();
-            const validationResult = schema.parse(jsonData);
+            const bodyData = await readBody(req, bodyOptions);
+            const validationResult = schema.parse(bodyData);
             return next(req, { ...context, body: validationResult });
          };
 
@@ -140,10 +646,44 @@ function createRouteHandler<
             S,
             B & { body: z.infer<Schema> },
             E
-         >(options, [...middlewares, mw]);
+         >(options, [...middlewares, mw], {
+            ...meta,
+            body: { schema, contentTypes: bodyOptions?.contentTypes },
+         });
       },
 
-      verifyParams<Schema extends z.ZodType<any, any>>(schema: Schema) {
+      verifyFormData<Schema extends z.ZodTypeAny, F extends string = never>(
+         schema: Schema,
+         formOptions?: FormDataOptions<F>
+      ) {
+         const mw: Middleware<
+            TData,
+            P,
+            S,
+            B,
+            E & { form: FormDataContext<z.infer<Schema>, F> }
+         > = async (req, context, next) => {
+            const { fields, files } = await readFormData(req, formOptions);
+            const parsedFields = schema.parse(fields);
+            return next(req, {
+               ...context,
+               form: { fields: parsedFields, files },
+            });
+         };
+
+         return createRouteHandler<
+            TData,
+            P,
+            S,
+            B,
+            E & { form: FormDataContext<z.infer<Schema>, F> }
+         >(options, [...middlewares, mw], {
+            ...meta,
+            formData: { schema, files: formOptions?.files ?? {} },
+         });
+      },
+
+      verifyParams<Schema extends z.ZodTypeAny>(schema: Schema) {
          const mw: Middleware<TData, z.infer<Schema>, S, B, E> = async (
             req,
             context,
@@ -153,13 +693,14 @@ function createRouteHandler<
             return next(req, { ...context, params: parsed });
          };
 
-         return createRouteHandler<TData, z.infer<Schema>, S, B, E>(options, [
-            ...middlewares,
-            mw,
-         ]);
+         return createRouteHandler<TData, z.infer<Schema>, S, B, E>(
+            options,
+            [...middlewares, mw],
+            { ...meta, params: schema }
+         );
       },
 
-      verifyQuery<Schema extends z.ZodType<any, any>>(schema: Schema) {
+      verifyQuery<Schema extends z.ZodTypeAny>(schema: Schema) {
          const mw: Middleware<
             TData,
             P,
@@ -180,11 +721,72 @@ function createRouteHandler<
             S,
             B,
             E & { query: z.infer<Schema> }
-         >(options, [...middlewares, mw]);
+         >(options, [...middlewares, mw], { ...meta, query: schema });
       },
 
-      pagination() {
+      verifyHeaders<Schema extends z.ZodTypeAny>(schema: Schema) {
+         const mw: Middleware<
+            TData,
+            P,
+            S,
+            B,
+            E & { headers: z.infer<Schema> }
+         > = async (req, context, next) => {
+            const rawHeaders = Object.fromEntries(req.headers.entries());
+            const parsedHeaders = schema.parse(rawHeaders);
+            return next(req, { ...context, headers: parsedHeaders });
+         };
+
+         return createRouteHandler<
+            TData,
+            P,
+            S,
+            B,
+            E & { headers: z.infer<Schema> }
+         >(options, [...middlewares, mw], { ...meta, headers: schema });
+      },
+
+      verifyCookies<Schema extends z.ZodTypeAny>(schema: Schema) {
+         const mw: Middleware<
+            TData,
+            P,
+            S,
+            B,
+            E & { cookies: z.infer<Schema> }
+         > = async (req, context, next) => {
+            const rawCookies = Object.fromEntries(
+               req.cookies.getAll().map(({ name, value }) => [name, value])
+            );
+            const parsedCookies = schema.parse(rawCookies);
+            return next(req, { ...context, cookies: parsedCookies });
+         };
+
+         return createRouteHandler<
+            TData,
+            P,
+            S,
+            B,
+            E & { cookies: z.infer<Schema> }
+         >(options, [...middlewares, mw], { ...meta, cookies: schema });
+      },
+
+      pagination<TSort extends string = string>(
+         paginationOptions: PaginationOptions<TSort> = {}
+      ) {
          const config = options.pagination;
+         const {
+            defaultPageSize = 10,
+            maxPageSize = 100,
+            sortable,
+            defaultSortOrder = "asc",
+         } = paginationOptions;
+         const defaultSort =
+            paginationOptions.defaultSort ?? sortable?.[0] ?? "createdAt";
+         if (sortable && !sortable.includes(defaultSort as TSort)) {
+            throw new Error(
+               `❌ pagination defaultSort "${defaultSort}" is not in sortable.`
+            );
+         }
 
          const mw: Middleware<TData, P, S, B, E> = async (
             req,
@@ -193,19 +795,31 @@ function createRouteHandler<
          ) => {
             const searchParams = req.nextUrl.searchParams;
 
-            const pageIndex = Number(searchParams.get(config.pageIndex)) || 0;
-            const pageSize = Number(searchParams.get(config.pageSize)) || 10;
+            const pageIndex = Math.max(
+               Number(searchParams.get(config.pageIndex)) || 0,
+               0
+            );
+            const requestedSize =
+               Number(searchParams.get(config.pageSize)) || defaultPageSize;
+            const pageSize = Math.min(Math.max(requestedSize, 1), maxPageSize);
             const skip = pageIndex * pageSize;
 
-            const sortBy = searchParams.get(config.sortBy) || "createdAt";
-            const sortOrder =
-               searchParams.get(config.sortOrder) === "desc" ? "desc" : "asc";
+            const sortBy = searchParams.get(config.sortBy) || defaultSort;
+            if (sortable && !sortable.includes(sortBy as TSort)) {
+               throw new ValidationError(undefined, "INVALID_SORT_ERROR");
+            }
 
-            const pagination: PaginationParams = {
+            const rawSortOrder = searchParams.get(config.sortOrder);
+            const sortOrder: SortOrder =
+               rawSortOrder === "desc" || rawSortOrder === "asc"
+                  ? rawSortOrder
+                  : defaultSortOrder;
+
+            const pagination: PaginationParams<TSort> = {
                pageIndex,
                pageSize,
                skip,
-               sortBy,
+               sortBy: sortBy as TSort,
                sortOrder,
             };
 
@@ -217,27 +831,430 @@ function createRouteHandler<
             P,
             S,
             B,
-            E & { pagination: PaginationParams }
-         >(options, [...middlewares, mw]);
+            E & { pagination: PaginationParams<TSort> }
+         >(options, [...middlewares, mw], {
+            ...meta,
+            pagination: {
+               query: config,
+               defaultPageSize,
+               maxPageSize,
+               sortable,
+               defaultSort,
+            },
+         });
+      },
+
+      cursorPagination<
+         Schema extends z.ZodTypeAny = z.ZodType<Record<string, unknown>>,
+      >(cursorOptions: CursorPaginationOptions<Schema> = {}) {
+         const config = options.pagination;
+         const { defaultLimit = 20, maxLimit = 100 } = cursorOptions;
+         const secret = cursorOptions.secret ?? options.cursorKey;
+         if (!secret) {
+            throw new Error(
+               "❌ cursorPagination requires cursorKey or secret."
+            );
+         }
+
+         const mw: Middleware<
+            TData,
+            P,
+            S,
+            B,
+            E & { cursor: CursorParams<z.infer<Schema>> }
+         > = async (req, context, next) => {
+            const searchParams = req.nextUrl.searchParams;
+
+            const rawCursor = searchParams.get(config.cursor ?? "cursor");
+            const decoded = rawCursor
+               ? await decodeCursor(rawCursor, secret)
+               : null;
+            const after =
+               decoded !== null && cursorOptions.schema
+                  ? cursorOptions.schema.parse(decoded)
+                  : decoded;
+
+            const requested =
+               Number(searchParams.get(config.limit ?? "limit")) ||
+               defaultLimit;
+            const limit = Math.min(Math.max(requested, 1), maxLimit);
+
+            return next(req, {
+               ...context,
+               cursor: createCursorParams(after, limit, secret),
+            });
+         };
+
+         return createRouteHandler<
+            TData,
+            P,
+            S,
+            B,
+            E & { cursor: CursorParams<z.infer<Schema>> }
+         >(options, [...middlewares, mw], {
+            ...meta,
+            cursor: {
+               query: {
+                  cursor: config.cursor ?? "cursor",
+                  limit: config.limit ?? "limit",
+               },
+               defaultLimit,
+               maxLimit,
+            },
+         });
+      },
+
+      auth<A extends Auth, TSession = unknown>(strategy: A) {
+         const mw: Middleware<TData, P, S, B, E> = async (
+            req,
+            context,
+            next
+         ) => {
+            const authStrategy = (options.client?.auth ?? authRegistry).get(
+               strategy
+            );
+            if (!authStrategy) {
+               throw new Error(
+                  `❌ Auth strategy "${strategy}" is not registered.`
+               );
+            }
+
+            const { result, errorResponse } = await authStrategy.run(req);
+            if (errorResponse) return errorResponse;
+
+            return next(req, { ...context, ...result });
+         };
+
+         return createRouteHandler<
+            TData,
+            P,
+            S & StrategyContext<A, TSession>,
+            B,
+            E
+         >(options, [...middlewares, mw], {
+            ...meta,
+            auth: [...(meta.auth ?? []), strategy],
+         });
+      },
+
+      rateLimit(rateLimitOptions: RateLimitOptions<BaseContext<P, S, B, E>>) {
+         const { limit, window, algorithm = "fixed-window" } = rateLimitOptions;
+         const store = rateLimitOptions.store ?? new MemoryRateLimitStore();
+
+         const mw: Middleware<TData, P, S, B, E> = async (
+            req,
+            context,
+            next
+         ) => {
+            const key =
+               (await rateLimitOptions.key?.(req, context)) ??
+               getClientIp(req, rateLimitOptions.trustProxy);
+            const result = await consumeRateLimit(store, key, {
+               limit,
+               window,
+               algorithm,
+            });
+
+            if (!result.allowed) {
+               const error = new TooManyRequestsError();
+               error.headers = new Headers();
+               setRateLimitHeaders(error.headers, result, window);
+               throw error;
+            }
+
+            const response = await next(req, context);
+            setRateLimitHeaders(response.headers, result, window);
+            return response;
+         };
+
+         return createRouteHandler<TData, P, S, B, E>(
+            options,
+            [...middlewares, mw],
+            { ...meta, rateLimit: { limit, window, algorithm } }
+         );
+      },
+
+      idempotent(
+         idempotencyOptions: IdempotencyOptions<BaseContext<P, S, B, E>> = {}
+      ) {
+         const {
+            ttl = DEFAULT_IDEMPOTENCY_TTL,
+            lockTtl = DEFAULT_IDEMPOTENCY_LOCK_TTL,
+         } = idempotencyOptions;
+         const store = idempotencyOptions.store ?? new MemoryIdempotencyStore();
+
+         const mw: Middleware<TData, P, S, B, E> = async (
+            req,
+            context,
+            next
+         ) => {
+            const idempotencyKey = req.headers.get("idempotency-key");
+            if (!idempotencyKey) return next(req, context);
+
+            const ctx = context as { session?: unknown; body?: unknown };
+            const scope =
+               (await idempotencyOptions.scope?.(req, context)) ??
+               sessionScope(ctx.session);
+            const key = `${req.method} ${req.nextUrl.pathname}:${scope}:${idempotencyKey}`;
+            const fingerprint = await hashRequestBody(req, ctx.body);
+
+            const locked = await store.setIfAbsent(
+               key,
+               { state: "pending", fingerprint },
+               lockTtl
+            );
+            if (!locked) {
+               const record = await store.get(key);
+               if (record && record.fingerprint !== fingerprint) {
+                  throw new ConflictError(
+                     undefined,
+                     "IDEMPOTENCY_KEY_REUSED_ERROR"
+                  );
+               }
+               if (record?.state === "pending") {
+                  throw new ConflictError(
+                     undefined,
+                     "IDEMPOTENCY_IN_PROGRESS_ERROR"
+                  );
+               }
+               if (record?.state === "completed") {
+                  const { status, body } = record.response;
+                  const headers = { "Idempotent-Replayed": "true" };
+                  return (
+                     body === null
+                        ? new NextResponse(null, { status, headers })
+                        : NextResponse.json(body, { status, headers })
+                  ) as Response<TData>;
+               }
+            }
+
+            const response = await next(req, context);
+            const stored =
+               response.status < 500
+                  ? await readStoredResponse(response)
+                  : undefined;
+
+            if (stored) {
+               await store.set(
+                  key,
+                  { state: "completed", fingerprint, response: stored },
+                  ttl
+               );
+            } else {
+               await store.delete(key);
+            }
+            return response;
+         };
+
+         return createRouteHandler<TData, P, S, B, E>(
+            options,
+            [...middlewares, mw],
+            { ...meta, idempotent: { ttl } }
+         );
+      },
+
+      etag(etagOptions: ETagOptions<BaseContext<P, S, B, E>> = {}) {
+         const { cacheControl = DEFAULT_CACHE_CONTROL, weak = false } =
+            etagOptions;
+
+         const mw: Middleware<TData, P, S, B, E> = async (
+            req,
+            context,
+            next
+         ) => {
+            const ifMatch = req.headers.get("if-match");
+            if (
+               ifMatch &&
+               etagOptions.currentVersion &&
+               ["PUT", "PATCH"].includes(req.method)
+            ) {
+               const current = await etagOptions.currentVersion(req, context);
+               if (
+                  current === undefined ||
+                  current === null ||
+                  !matchesETag(ifMatch, formatETag(current), true)
+               ) {
+                  throw new PreconditionFailedError();
+               }
+            }
+
+            const response = await next(req, context);
+            if (response.status !== 200) return response;
+
+            if (!response.headers.has("ETag")) {
+               const body = await response.clone().text();
+               response.headers.set("ETag", await hashETag(body, weak));
+            }
+            if (!response.headers.has("Cache-Control")) {
+               response.headers.set("Cache-Control", cacheControl);
+            }
+
+            if (
+               (req.method === "GET" || req.method === "HEAD") &&
+               isNotModified(req, response.headers)
+            ) {
+               return notModifiedResponse(response) as Response<TData>;
+            }
+            return response;
+         };
+
+         return createRouteHandler<TData, P, S, B, E>(
+            options,
+            [...middlewares, mw],
+            {
+               ...meta,
+               etag: { weak, ifMatch: !!etagOptions.currentVersion },
+            }
+         );
+      },
+
+      inject<M extends Record<string, Token<unknown>>>(tokens: M) {
+         type Injected = { [K in keyof M]: TokenType<M[K]> };
+
+         const mw: Middleware<TData, P, S, B, E> = async (
+            req,
+            context,
+            next
+         ) => {
+            const injected = Object.fromEntries(
+               Object.entries(tokens).map(([key, token]) => [
+                  key,
+                  context.resolve(token),
+               ])
+            ) as Injected;
+
+            return next(req, { ...context, ...injected });
+         };
+
+         return createRouteHandler<TData, P, S, B, E & Injected>(
+            options,
+            [...middlewares, mw] as Middleware<TData, P, S, B, E & Injected>[],
+            meta
+         );
+      },
+
+      use<Added extends object>(
+         middleware: PluginMiddleware<Added, BaseContext<P, S, B, E>>
+      ) {
+         // 반환을 빠뜨린 미들웨어가 이후 단계(`auth()` 등)를 건너뛰지 않도록
+         // 호출한 `next`의 응답을 사용하고, 호출하지 않았다면 나머지 체인을 실행합니다.
+         const mw: Middleware<TData, P, S, B, E> = async (
+            req,
+            context,
+            next
+         ) => {
+            let forwarded: Promise<Response<TData>> | undefined;
+            const response = (await middleware(req, context, (request, ctx) => {
+               forwarded = next(request, ctx);
+               return forwarded;
+            })) as Response<TData> | undefined;
+
+            return response ?? forwarded ?? next(req, context);
+         };
+
+         return createRouteHandler<TData, P, S, B, E & Added>(
+            options,
+            [...middlewares, mw] as Middleware<TData, P, S, B, E & Added>[],
+            meta
+         );
+      },
+
+      verifyResponse<Schema extends z.ZodTypeAny>(
+         schema: Schema,
+         verifyOptions: VerifyResponseOptions = {}
+      ) {
+         return createRouteHandler<z.output<Schema>, P, S, B, E>(
+            options,
+            middlewares as unknown as Middleware<
+               z.output<Schema>,
+               P,
+               S,
+               B,
+               E
+            >[],
+            { ...meta, response: { schema, options: verifyOptions } }
+         );
+      },
+
+      timeout(ms: number) {
+         return createRouteHandler<TData, P, S, B, E>(
+            { ...options, timeout: ms },
+            middlewares,
+            meta
+         );
+      },
+
+      cors(overrides: CorsOptions) {
+         return createRouteHandler<TData, P, S, B, E>(
+            { ...options, cors: { ...options.cors, ...overrides } },
+            middlewares,
+            meta
+         );
       },
 
       handle(
          handlerFn: (
             req: NextRequest,
             context: BaseContext<P, S, B, E>
-         ) => Promise<TData>
+         ) => Promise<HandlerResult<TData>>
       ) {
-         return async (
+         const route = async (
             req: NextRequest,
             context: { params: Promise<P> }
          ): Promise<Response<TData>> => {
+            const requestId = resolveRequestId(req);
+            const { cors } = options;
+            if (cors && isPreflightRequest(req)) {
+               const preflight = await createPreflightResponse(req, cors);
+               preflight.headers.set(REQUEST_ID_HEADER, requestId);
+               return preflight as Response<TData>;
+            }
+
             let index = 0;
+            const startedAt = Date.now();
             const resolvedParams = await context.params;
+            const { hooks, client } = options;
+            const logger = options.logger ?? getLogger();
+            const controller = new AbortController();
+            const scope = (options.container ?? container).createScope();
+            let currentCtx = {
+               params: resolvedParams,
+               signal: controller.signal,
+               requestId,
+               resolve: (token) => scope.resolve(token),
+            } as BaseContext<P, S, B, E>;
+
+            const reportError = async (
+               err: unknown,
+               req: NextRequest,
+               ctx: BaseContext<P, S, B, E>
+            ) => {
+               const { onError } = hooks ?? {};
+               if (onError) {
+                  await runHook(
+                     "onError",
+                     () => onError(err, req, ctx as HookContext),
+                     logger
+                  );
+               }
+               return createErrorResponse<TData>(err, req, client);
+            };
+
+            // 제한 시간으로 이미 응답했다면 뒤늦게 실패한 handler의 응답은 버려지므로 onError와 로그를 생략합니다.
+            const fail = async (
+               err: unknown,
+               req: NextRequest,
+               ctx: BaseContext<P, S, B, E>
+            ) =>
+               controller.signal.aborted
+                  ? (new NextResponse(null, { status: 500 }) as Response<TData>)
+                  : reportError(err, req, ctx);
 
             const next = async (
                req: NextRequest,
                ctx: BaseContext<P, S, B, E>
             ): Promise<Response<TData>> => {
+               currentCtx = ctx;
                try {
                   if (index < middlewares.length) {
                      const middleware = middlewares[index++];
@@ -245,23 +1262,81 @@ function createRouteHandler<
                      if (response instanceof NextResponse) return response;
                   }
 
-                  return NextResponse.json({
-                     code: 200,
-                     message: "success",
-                     data: await handlerFn(req, ctx),
-                  });
+                  const result = await handlerFn(req, ctx);
+                  return toResponse(
+                     verifyResult(result, meta.response, logger),
+                     (ctx as { pagination?: PaginationParams }).pagination
+                  );
                } catch (err) {
-                  const errorObj = await handleServerError(err, req);
+                  return fail(err, req, ctx);
+               }
+            };
 
-                  return NextResponse.json(errorObj, {
-                     status: errorObj.code,
-                  });
+            const run = async () => {
+               try {
+                  await hooks?.onRequest?.(req, currentCtx as HookContext);
+               } catch (err) {
+                  return fail(err, req, currentCtx);
                }
+               return next(req, currentCtx);
             };
 
-            return next(req, {
-               params: resolvedParams,
-            } as BaseContext<P, S, B, E>);
+            // 제한 시간으로 먼저 응답하더라도 request 범위 인스턴스는 handler 실행이 끝난 뒤 dispose 합니다.
+            const task = run().finally(() =>
+               scope.dispose().catch((error) => {
+                  logger.error("[Container] dispose failure", { error });
+               })
+            );
+            const response = await raceTimeout(
+               task,
+               controller,
+               (error) => reportError(error, req, currentCtx),
+               options.timeout
+            );
+            response.headers.set(REQUEST_ID_HEADER, requestId);
+            if (cors) await applyCorsHeaders(req, response, cors);
+
+            const { onResponse } = hooks ?? {};
+            if (onResponse) {
+               await runHook(
+                  "onResponse",
+                  () =>
+                     onResponse(
+                        req,
+                        currentCtx as HookContext,
+                        response,
+                        Date.now() - startedAt
+                     ),
+                  logger
+               );
+            }
+            return response;
+         };
+
+         return Object.assign(route, {
+            meta: {
+               ...meta,
+               ...(options.timeout && options.timeout > 0
+                  ? { timeout: options.timeout }
+                  : {}),
+               ...(options.cors ? { cors: options.cors } : {}),
+            },
+         });
+      },
+
+      action(handlerFn) {
+         const route = createRouteHandler<TData, P, S, B, E>(
+            options,
+            middlewares,
+            meta
+         ).handle((_, context) => handlerFn(context));
+
+         return async (input) => {
+            const req = await createActionRequest(input, !!meta.formData);
+            const response = await route(req, {
+               params: Promise.resolve({} as P),
+            });
+            return readActionResult<TData>(response, req);
          };
       },
    };
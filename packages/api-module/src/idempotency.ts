@@ -0,0 +1,131 @@
+/**
+ * @file idempotency.ts
+ * @author 심명보 (https://github.com/jerry-sb)
+ * @description `Idempotency-Key` 헤더 기반의 중복 요청 방지와 응답 저장소 인터페이스
+ *
+ * 같은 키로 재요청하면 처음 저장된 응답(상태 코드 + JSON envelope)을 그대로 반환하고,
+ * 다른 본문으로 같은 키를 재사용하거나 처음 요청이 아직 처리 중이면 409로 응답합니다.
+ */
+
+import { NextRequest } from "next/server";
+import { digest, toHex } from "./web-crypto";
+
+export type StoredResponse = {
+   status: number;
+   body: unknown;
+};
+
+export type IdempotencyRecord =
+   | { state: "pending"; fingerprint: string }
+   | { state: "completed"; fingerprint: string; response: StoredResponse };
+
+/**
+ * `Idempotency-Key`별 처리 상태와 저장한 응답을 보관하는 저장소입니다.
+ */
+export interface IdempotencyStore {
+   get(key: string): Promise<IdempotencyRecord | undefined>;
+   /**
+    * 키가 없을 때만 저장합니다. (동시 요청 잠금용, Redis의 `SET NX`에 해당)
+    *
+    * @returns 저장했으면 true, 이미 키가 있으면 false
+    */
+   setIfAbsent(
+      key: string,
+      record: IdempotencyRecord,
+      ttl: number
+   ): Promise<boolean>;
+   set(key: string, record: IdempotencyRecord, ttl: number): Promise<void>;
+   delete(key: string): Promise<void>;
+}
+
+export type IdempotencyOptions<Ctx> = {
+   /** 응답 저장소 (기본값 라우트별 메모리 저장소) */
+   store?: IdempotencyStore;
+   /** 응답 보관 시간 (ms, 기본값 24시간) */
+   ttl?: number;
+   /**
+    * 처리 중(`pending`) 잠금의 보관 시간 (ms, 기본값 1분)
+    * 처리 도중 프로세스가 종료되어도 이 시간이 지나면 같은 키로 다시 요청할 수 있습니다.
+    * handler의 최대 실행 시간보다 길게 설정해야 합니다.
+    */
+   lockTtl?: number;
+   /** 키를 구분할 사용자 범위 (기본값 `context.session`의 `id`) */
+   scope?: (req: NextRequest, context: Ctx) => string | Promise<string>;
+};
+
+export const DEFAULT_IDEMPOTENCY_TTL = 24 * 60 * 60 * 1000;
+export const DEFAULT_IDEMPOTENCY_LOCK_TTL = 60 * 1000;
+
+/**
+ * 저장한 응답을 프로세스 메모리에 두는 저장소로, 다른 인스턴스로 간 재시도는 중복 처리됩니다.
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+   private entries = new Map<
+      string,
+      { record: IdempotencyRecord; expiresAt: number }
+   >();
+
+   async get(key: string) {
+      const entry = this.entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+         this.entries.delete(key);
+         return undefined;
+      }
+      return entry.record;
+   }
+
+   async setIfAbsent(key: string, record: IdempotencyRecord, ttl: number) {
+      if (await this.get(key)) return false;
+      await this.set(key, record, ttl);
+      return true;
+   }
+
+   async set(key: string, record: IdempotencyRecord, ttl: number) {
+      this.entries.set(key, { record, expiresAt: Date.now() + ttl });
+   }
+
+   async delete(key: string) {
+      this.entries.delete(key);
+   }
+}
+
+/**
+ * 세션 값에서 키 범위로 사용할 문자열을 만듭니다.
+ */
+export function sessionScope(session: unknown): string {
+   if (session && typeof session === "object" && "id" in session) {
+      return String(session.id);
+   }
+   return session == null ? "" : JSON.stringify(session);
+}
+
+/**
+ * 요청 본문의 SHA-256 해시를 만듭니다.
+ * 본문이 이미 읽혔다면(`verifyBody()` 이후) 검증된 `context.body`로 해시합니다.
+ */
+export async function hashRequestBody(
+   req: NextRequest,
+   body: unknown
+): Promise<string> {
+   const raw = req.bodyUsed
+      ? JSON.stringify(body ?? null)
+      : await req.clone().text();
+   return toHex(await digest("SHA-256", raw));
+}
+
+/**
+ * 응답의 상태 코드와 JSON 본문을 저장 가능한 형태로 읽습니다.
+ *
+ * @returns JSON이 아닌 응답이면 undefined
+ */
+export async function readStoredResponse(
+   response: Response
+): Promise<StoredResponse | undefined> {
+   const text = await response.clone().text();
+   try {
+      return { status: response.status, body: text ? JSON.parse(text) : null };
+   } catch {
+      return undefined;
+   }
+}
@@ -1,7 +1,22 @@
 import "reflect-metadata";
 
-export * from "./container";
+export * from "./container"; // container, Injectable, Inject, InjectionToken
 export * from "./handler"; // createRouteHandler, Middleware, BaseContext 등
+export * from "./middleware"; // defineMiddleware, PluginMiddleware
 export * from "./error"; // handleServerError, ServerError, NotFoundError 등
-export * from "./client"; // ClientInstanceOptions
+export * from "./client"; // createClient, ApiClient, ClientInstanceOptions
 export * from "./messeage"; // initMessageGetter, getMessage, resetMessageGetter
+export * from "./response"; // created, noContent, withHeaders, withCookies
+export * from "./body"; // BodyContentType, VerifyBodyOptions
+export * from "./form-data"; // FileRule, FormDataOptions
+export * from "./cursor"; // encodeCursor, decodeCursor, CursorPage
+export * from "./cors"; // CorsOptions
+export * from "./rate-limit"; // RateLimitStore, MemoryRateLimitStore
+export * from "./idempotency"; // IdempotencyStore, MemoryIdempotencyStore
+export * from "./etag"; // ETagOptions, formatETag
+export * from "./logger"; // Logger, setLogger, getRequestId
+export * from "./auth"; // registerStrategy, setAuthProvider, BaseAuthStrategy 등
+export * from "./openapi"; // generateOpenAPI, zodToJsonSchema
+export * from "./caller"; // createApiCaller, InferRoute, ApiClientError (프론트엔드는 "/caller" 엔트리 사용)
+export * from "./router"; // defineRoute
+export * from "./action"; // ActionResult, ServerAction
@@ -0,0 +1,75 @@
+/**
+ * @file logger.ts
+ * @author 심명보 (https://github.com/jerry-sb)
+ * @description 구조화된 로그를 남기기 위한 Logger 인터페이스와 요청 ID 관리
+ *
+ * 사용법
+ * createClient({ ..., logger: { debug: pino.debug, info: pino.info, warn: pino.warn, error: pino.error } });
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+export type Logger = Record<
+   LogLevel,
+   (message: string, fields?: LogFields) => void
+>;
+
+export const REQUEST_ID_HEADER = "x-request-id";
+
+function toConsole(level: LogLevel) {
+   return (message: string, fields?: LogFields) =>
+      fields ? console[level](message, fields) : console[level](message);
+}
+
+/**
+ * 기본 Logger, 레벨에 맞는 `console` 메서드로 출력합니다.
+ */
+export const consoleLogger: Logger = {
+   debug: toConsole("debug"),
+   info: toConsole("info"),
+   warn: toConsole("warn"),
+   error: toConsole("error"),
+};
+
+let _logger: Logger = consoleLogger;
+
+/**
+ * 모듈 전체에서 사용할 Logger를 지정합니다. 생략하면 `consoleLogger`로 되돌립니다.
+ */
+export function setLogger(logger?: Logger) {
+   _logger = logger ?? consoleLogger;
+}
+
+export function getLogger(): Logger {
+   return _logger;
+}
+
+/** 클라이언트가 보낸 요청 ID로 허용하는 형식 (응답 헤더와 로그에 그대로 남기므로 길이와 문자를 제한합니다) */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+const requestIds = new WeakMap<Request, string>();
+
+/**
+ * 요청 ID를 `x-request-id` 헤더에서 읽거나 새로 만들어 요청에 연결합니다.
+ * 헤더 값이 허용 형식(영문, 숫자, `._:-`, 최대 128자)이 아니면 새로 만듭니다.
+ * 같은 요청에 대해서는 항상 같은 ID를 반환합니다.
+ */
+export function resolveRequestId(req: Request): string {
+   const existing = requestIds.get(req);
+   if (existing) return existing;
+
+   const header = req.headers.get(REQUEST_ID_HEADER);
+   const requestId =
+      header && REQUEST_ID_PATTERN.test(header) ? header : crypto.randomUUID();
+   requestIds.set(req, requestId);
+   return requestId;
+}
+
+/**
+ * `handle()`에서 요청에 연결된 ID를 반환합니다. 연결된 ID가 없으면 undefined
+ */
+export function getRequestId(req: Request): string | undefined {
+   return requestIds.get(req);
+}
@@ -13,6 +13,23 @@ const MESSAGES = {
       UNIQUE_ERROR: "이미 존재하는 고유값입니다.",
       TIMEOUT_ERROR: "서버 응답이 없습니다.",
       SIGNATURE_ERROR: "시그니처 검증에 실패했습니다.",
+      PAYLOAD_TOO_LARGE_ERROR: "업로드 용량이 허용된 크기를 초과했습니다.",
+      FILE_TYPE_ERROR: "허용되지 않는 파일 형식입니다.",
+      FILE_COUNT_ERROR: "업로드 가능한 파일 개수를 초과했습니다.",
+      UNSUPPORTED_MEDIA_TYPE_ERROR: "지원하지 않는 Content-Type 입니다.",
+      INVALID_JSON_ERROR: "요청 본문이 올바른 JSON 형식이 아닙니다.",
+      INVALID_CURSOR_ERROR: "유효하지 않은 커서입니다.",
+      INVALID_SORT_ERROR: "정렬할 수 없는 필드입니다.",
+      METHOD_NOT_ALLOWED_ERROR: "허용되지 않은 메서드입니다.",
+      TOO_MANY_REQUESTS_ERROR:
+         "요청이 너무 많습니다. 잠시 후 다시 시도해주세요.",
+      CONFLICT_ERROR: "요청이 현재 상태와 충돌합니다.",
+      IDEMPOTENCY_KEY_REUSED_ERROR:
+         "같은 Idempotency-Key가 다른 요청 본문에 사용되었습니다.",
+      IDEMPOTENCY_IN_PROGRESS_ERROR:
+         "같은 Idempotency-Key의 요청이 아직 처리 중입니다.",
+      PRECONDITION_FAILED_ERROR:
+         "리소스가 변경되었습니다. 최신 데이터를 다시 조회해주세요.",
    },
    en: {
       INTERNAL_ERROR: "Internal server error occurred.",
@@ -26,18 +43,37 @@ const MESSAGES = {
       UNIQUE_ERROR: "Unique constraint violated.",
       TIMEOUT_ERROR: "Server response timed out.",
       SIGNATURE_ERROR: "Signature validation failed.",
+      PAYLOAD_TOO_LARGE_ERROR: "Upload exceeds the allowed size.",
+      FILE_TYPE_ERROR: "File type is not allowed.",
+      FILE_COUNT_ERROR: "Too many files uploaded.",
+      UNSUPPORTED_MEDIA_TYPE_ERROR: "Unsupported Content-Type.",
+      INVALID_JSON_ERROR: "Request body is not valid JSON.",
+      INVALID_CURSOR_ERROR: "Invalid cursor.",
+      INVALID_SORT_ERROR: "Sorting by this field is not allowed.",
+      METHOD_NOT_ALLOWED_ERROR: "Method not allowed.",
+      TOO_MANY_REQUESTS_ERROR: "Too many requests. Please try again later.",
+      CONFLICT_ERROR: "The request conflicts with the current state.",
+      IDEMPOTENCY_KEY_REUSED_ERROR:
+         "This Idempotency-Key was already used with a different request body.",
+      IDEMPOTENCY_IN_PROGRESS_ERROR:
+         "A request with this Idempotency-Key is still being processed.",
+      PRECONDITION_FAILED_ERROR:
+         "The resource has been modified. Please fetch the latest version.",
    },
    fn: {},
 } as const;
 
 export type MessageKey = keyof (typeof MESSAGES)["kr"];
 
-let _getMessage: ((key: MessageKey) => string) | null = null;
+export type MessageGetter = (key: MessageKey) => string;
 
-function initMessageGetter(lang: LangType) {
-   if (_getMessage) return; // 이미 초기화됐다면 무시
+let _getMessage: MessageGetter | null = null;
 
-   _getMessage = (key: MessageKey) => {
+/**
+ * 언어별 메시지 조회 함수를 만듭니다. (클라이언트 인스턴스마다 하나씩 가집니다)
+ */
+function createMessageGetter(lang: LangType): MessageGetter {
+   return (key: MessageKey) => {
       const fallback = MESSAGES["kr"][key];
       const selected = MESSAGES[lang]?.[key];
 
@@ -45,6 +81,12 @@ function initMessageGetter(lang: LangType) {
    };
 }
 
+function initMessageGetter(lang: LangType) {
+   if (_getMessage) return; // 이미 초기화됐다면 무시
+
+   _getMessage = createMessageGetter(lang);
+}
+
 function getMessage(messageKey: MessageKey) {
    if (!_getMessage) {
       throw new Error(
@@ -58,4 +100,9 @@ function resetMessageGetter() {
    _getMessage = null;
 }
 
-export { initMessageGetter, getMessage, resetMessageGetter };
+export {
+   createMessageGetter,
+   initMessageGetter,
+   getMessage,
+   resetMessageGetter,
+};
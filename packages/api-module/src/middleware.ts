@@ -0,0 +1,58 @@
+/**
+ * @file middleware.ts
+ * @author 심명보 (https://github.com/jerry-sb)
+ * @description `.use()`로 등록하는 재사용 가능한 미들웨어(플러그인) 정의 유틸
+ *
+ * 사용법
+ * export const withTenant = defineMiddleware<{ tenant: Tenant }>(
+ *    async (req, ctx, next) => {
+ *       const tenant = await findTenant(req.headers.get("x-tenant-id"));
+ *       if (!tenant) return NextResponse.json({ code: 404, message: "..." }, { status: 404 });
+ *       return next(req, { ...ctx, tenant });
+ *    }
+ * );
+ *
+ * getClient().use(withTenant).handle(async (req, ctx) => ctx.tenant.name);
+ */
+
+import { NextRequest } from "next/server";
+import type { BaseContext, Response } from "./handler";
+
+/**
+ * `.use()`로 등록하는 미들웨어입니다.
+ * `next`에 `Added` 값을 추가한 context를 넘기면 이후 단계의 context 타입이 확장되고,
+ * `next`를 호출하지 않고 `NextResponse`를 반환하면 체인이 중단됩니다.
+ * 항상 `next`의 결과나 `NextResponse`를 반환해야 합니다.
+ *
+ * @typeParam Added - context에 추가하는 값
+ * @typeParam Requires - 실행에 필요한 context 값 (예: `{ session: Session }`)
+ */
+export type PluginMiddleware<Added extends object, Requires = unknown> = (<
+   Ctx extends BaseContext<unknown, unknown, unknown, unknown> & Requires,
+>(
+   request: NextRequest,
+   context: Ctx,
+   next: (
+      request: NextRequest,
+      context: Ctx & Added
+   ) => Promise<Response<unknown>>
+) => Promise<Response<unknown>>) & {
+   readonly __added?: Added;
+   /** 타입 검사용 (`use()`에서 라우트 context가 `Requires`를 만족하는지 확인) */
+   readonly __requires?: (context: Requires) => void;
+};
+
+/**
+ * 타입이 지정된 미들웨어를 정의합니다. 함수를 그대로 반환하며 타입 추론만 돕습니다.
+ *
+ * @typeParam Added - context에 추가하는 값
+ * @typeParam Requires - 앞 단계(`auth()` 등)에서 채워져 있어야 하는 context 값
+ */
+export function defineMiddleware<
+   Added extends object = object,
+   Requires = unknown,
+>(
+   middleware: PluginMiddleware<Added, Requires>
+): PluginMiddleware<Added, Requires> {
+   return middleware;
+}
@@ -0,0 +1,613 @@
+/**
+ * @file openapi.ts
+ * @author 심명보 (https://github.com/jerry-sb)
+ * @description RouteHandler 체인의 메타데이터(zod 스키마, 페이지네이션, 인증)로 OpenAPI 3.1 문서를 생성합니다.
+ *
+ * 사용법
+ * generateOpenAPI({
+ *    info: { title: "My API", version: "1.0.0" },
+ *    routes: { "GET /users/{id}": GET, "POST /users": POST },
+ * });
+ */
+
+import { z } from "zod";
+import type { RouteMeta } from "./handler";
+import type { Auth } from "./auth";
+
+export type JsonSchema = { [key: string]: unknown };
+
+export type OpenAPIDocument = {
+   openapi: "3.1.0";
+   info: { title: string; version: string; description?: string };
+   servers?: { url: string; description?: string }[];
+   paths: Record<string, Record<string, JsonSchema>>;
+   components: {
+      schemas: Record<string, JsonSchema>;
+      securitySchemes?: Record<string, JsonSchema>;
+   };
+};
+
+export type GenerateOpenAPIOptions = {
+   info?: OpenAPIDocument["info"];
+   servers?: OpenAPIDocument["servers"];
+   /**
+    * 라우트 목록. 키는 `"<METHOD> <path>"` 형태이며 path 파라미터는 `{id}`로 표기합니다.
+    * 값은 `handle()`이 반환한 함수 또는 RouteHandler 입니다.
+    */
+   routes: Record<string, { meta: RouteMeta }>;
+   /** 인증 전략별 security scheme (기본값: internal 계열은 서명 헤더, 그 외는 bearer) */
+   securitySchemes?: Partial<Record<Auth, JsonSchema>>;
+};
+
+const HTTP_METHODS = [
+   "get",
+   "post",
+   "put",
+   "patch",
+   "delete",
+   "head",
+   "options",
+];
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+   400: "Bad Request",
+   401: "Unauthorized",
+   405: "Method Not Allowed",
+   408: "Request Timeout",
+   409: "Conflict",
+   412: "Precondition Failed",
+   413: "Payload Too Large",
+   415: "Unsupported Media Type",
+   429: "Too Many Requests",
+   500: "Internal Server Error",
+};
+
+/* -------------------------------------------------------------------------- */
+/*                           ✅ zod → JSON Schema 변환                          */
+/* -------------------------------------------------------------------------- */
+
+function withDescription(schema: z.ZodTypeAny, json: JsonSchema): JsonSchema {
+   return schema.description
+      ? { ...json, description: schema.description }
+      : json;
+}
+
+function stringSchema(def: z.ZodStringDef): JsonSchema {
+   const json: JsonSchema = { type: "string" };
+   const formats: Record<string, string> = {
+      email: "email",
+      url: "uri",
+      uuid: "uuid",
+      datetime: "date-time",
+      date: "date",
+      time: "time",
+   };
+
+   for (const check of def.checks) {
+      if (check.kind === "min") json.minLength = check.value;
+      else if (check.kind === "max") json.maxLength = check.value;
+      else if (check.kind === "length") {
+         json.minLength = check.value;
+         json.maxLength = check.value;
+      } else if (check.kind === "regex") json.pattern = check.regex.source;
+      else if (formats[check.kind]) json.format = formats[check.kind];
+   }
+   return json;
+}
+
+function numberSchema(def: z.ZodNumberDef): JsonSchema {
+   const json: JsonSchema = { type: "number" };
+   for (const check of def.checks) {
+      if (check.kind === "int") json.type = "integer";
+      else if (check.kind === "min") {
+         json[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+      } else if (check.kind === "max") {
+         json[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+      } else if (check.kind === "multipleOf") json.multipleOf = check.value;
+   }
+   return json;
+}
+
+/**
+ * 변환 중에 만난 `z.lazy` 스키마와 그 정의입니다.
+ * 같은 lazy 스키마는 `$ref`로 참조해 재귀 스키마에서도 변환이 끝나도록 합니다.
+ */
+type SchemaRefs = {
+   /** `$ref` 경로 접두사 (`#/$defs/` 또는 `#/components/schemas/`) */
+   path: string;
+   names: Map<z.ZodTypeAny, string>;
+   schemas: Record<string, JsonSchema>;
+};
+
+function createSchemaRefs(path: string): SchemaRefs {
+   return { path, names: new Map(), schemas: {} };
+}
+
+function lazyRef(schema: z.ZodTypeAny, refs: SchemaRefs): JsonSchema {
+   let name = refs.names.get(schema);
+   if (!name) {
+      name = `Lazy${refs.names.size + 1}`;
+      // 정의를 변환하기 전에 이름을 먼저 등록해야 재귀 참조가 `$ref`로 끝납니다.
+      refs.names.set(schema, name);
+      refs.schemas[name] = toJsonSchema(schema._def.getter(), refs);
+   }
+   return { $ref: `${refs.path}${name}` };
+}
+
+function objectSchema(schema: z.AnyZodObject, refs: SchemaRefs): JsonSchema {
+   const properties: Record<string, JsonSchema> = {};
+   const required: string[] = [];
+
+   for (const [key, value] of Object.entries(schema.shape)) {
+      const field = value as z.ZodTypeAny;
+      properties[key] = toJsonSchema(field, refs);
+      if (!field.isOptional()) required.push(key);
+   }
+
+   const json: JsonSchema = { type: "object", properties };
+   if (required.length) json.required = required;
+
+   const catchall = schema._def.catchall as z.ZodTypeAny;
+   if (catchall._def.typeName !== z.ZodFirstPartyTypeKind.ZodNever) {
+      json.additionalProperties = toJsonSchema(catchall, refs);
+   } else if (schema._def.unknownKeys === "strict") {
+      json.additionalProperties = false;
+   }
+   return json;
+}
+
+function nullable(json: JsonSchema): JsonSchema {
+   if (typeof json.type === "string") {
+      return { ...json, type: [json.type, "null"] };
+   }
+   return { anyOf: [json, { type: "null" }] };
+}
+
+function toJsonSchema(schema: z.ZodTypeAny, refs: SchemaRefs): JsonSchema {
+   const def = schema._def;
+   const kind = def.typeName as z.ZodFirstPartyTypeKind;
+   const K = z.ZodFirstPartyTypeKind;
+
+   switch (kind) {
+      case K.ZodString:
+         return withDescription(schema, stringSchema(def));
+      case K.ZodNumber:
+         return withDescription(schema, numberSchema(def));
+      case K.ZodBigInt:
+         return withDescription(schema, { type: "integer" });
+      case K.ZodBoolean:
+         return withDescription(schema, { type: "boolean" });
+      case K.ZodDate:
+         return withDescription(schema, {
+            type: "string",
+            format: "date-time",
+         });
+      case K.ZodNull:
+         return withDescription(schema, { type: "null" });
+      case K.ZodLiteral:
+         return withDescription(schema, { const: def.value });
+      case K.ZodEnum:
+         return withDescription(schema, { type: "string", enum: def.values });
+      case K.ZodNativeEnum: {
+         const values = def.values as Record<string, string | number>;
+         // 숫자 enum의 역방향 매핑(값 → 이름)은 제외합니다.
+         const keys = Object.keys(values).filter(
+            (key) => typeof values[values[key]!] !== "number"
+         );
+         return withDescription(schema, {
+            enum: keys.map((key) => values[key]),
+         });
+      }
+      case K.ZodArray: {
+         const json: JsonSchema = {
+            type: "array",
+            items: toJsonSchema(def.type, refs),
+         };
+         if (def.minLength) json.minItems = def.minLength.value;
+         if (def.maxLength) json.maxItems = def.maxLength.value;
+         if (def.exactLength) {
+            json.minItems = def.exactLength.value;
+            json.maxItems = def.exactLength.value;
+         }
+         return withDescription(schema, json);
+      }
+      case K.ZodTuple:
+         return withDescription(schema, {
+            type: "array",
+            prefixItems: def.items.map((item: z.ZodTypeAny) =>
+               toJsonSchema(item, refs)
+            ),
+         });
+      case K.ZodObject:
+         return withDescription(
+            schema,
+            objectSchema(schema as z.AnyZodObject, refs)
+         );
+      case K.ZodRecord:
+         return withDescription(schema, {
+            type: "object",
+            additionalProperties: toJsonSchema(def.valueType, refs),
+         });
+      case K.ZodUnion:
+         return withDescription(schema, {
+            anyOf: def.options.map((option: z.ZodTypeAny) =>
+               toJsonSchema(option, refs)
+            ),
+         });
+      case K.ZodDiscriminatedUnion:
+         return withDescription(schema, {
+            oneOf: [...def.options.values()].map((option: z.ZodTypeAny) =>
+               toJsonSchema(option, refs)
+            ),
+         });
+      case K.ZodIntersection:
+         return withDescription(schema, {
+            allOf: [
+               toJsonSchema(def.left, refs),
+               toJsonSchema(def.right, refs),
+            ],
+         });
+      case K.ZodOptional:
+         return withDescription(schema, toJsonSchema(def.innerType, refs));
+      case K.ZodNullable:
+         return withDescription(
+            schema,
+            nullable(toJsonSchema(def.innerType, refs))
+         );
+      case K.ZodDefault:
+         return withDescription(schema, {
+            ...toJsonSchema(def.innerType, refs),
+            default: def.defaultValue(),
+         });
+      case K.ZodCatch:
+      case K.ZodReadonly:
+         return withDescription(schema, toJsonSchema(def.innerType, refs));
+      case K.ZodBranded:
+         return withDescription(schema, toJsonSchema(def.type, refs));
+      case K.ZodEffects:
+         return withDescription(schema, toJsonSchema(def.schema, refs));
+      case K.ZodPipeline:
+         return withDescription(schema, toJsonSchema(def.in, refs));
+      case K.ZodLazy:
+         return withDescription(schema, lazyRef(schema, refs));
+      default:
+         return withDescription(schema, {});
+   }
+}
+
+/**
+ * zod 스키마를 JSON Schema(OpenAPI 3.1 호환)로 변환합니다.
+ * 변환할 수 없는 타입은 제약 없는 스키마(`{}`)로 처리하고,
+ * `z.lazy` 스키마는 `$defs`에 한 번만 정의한 뒤 `$ref`로 참조합니다.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+   const refs = createSchemaRefs("#/$defs/");
+   const json = toJsonSchema(schema, refs);
+   return Object.keys(refs.schemas).length
+      ? { ...json, $defs: refs.schemas }
+      : json;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              ✅ OpenAPI 문서 생성                            */
+/* -------------------------------------------------------------------------- */
+
+function objectProperties(
+   schema: z.ZodTypeAny | undefined
+): [string, z.ZodTypeAny][] {
+   let current = schema;
+   while (current) {
+      if (current instanceof z.ZodObject) {
+         return Object.entries(current.shape) as [string, z.ZodTypeAny][];
+      }
+      const def = current._def as {
+         innerType?: z.ZodTypeAny;
+         schema?: z.ZodTypeAny;
+         in?: z.ZodTypeAny;
+      };
+      current = def.innerType ?? def.schema ?? def.in;
+   }
+   return [];
+}
+
+function schemaParameters(
+   location: "path" | "query" | "header" | "cookie",
+   schema: z.ZodTypeAny | undefined,
+   refs: SchemaRefs
+): JsonSchema[] {
+   return objectProperties(schema).map(([name, field]) => ({
+      name,
+      in: location,
+      required: location === "path" || !field.isOptional(),
+      schema: toJsonSchema(field, refs),
+      ...(field.description ? { description: field.description } : {}),
+   }));
+}
+
+function queryParameter(name: string, schema: JsonSchema): JsonSchema {
+   return { name, in: "query", required: false, schema };
+}
+
+function buildParameters(
+   path: string,
+   meta: RouteMeta,
+   refs: SchemaRefs
+): JsonSchema[] {
+   const pathParams = meta.params
+      ? schemaParameters("path", meta.params, refs)
+      : [...path.matchAll(/\{([^}]+)\}/g)].map(([, name]) => ({
+           name,
+           in: "path",
+           required: true,
+           schema: { type: "string" },
+        }));
+
+   const parameters = [
+      ...pathParams,
+      ...schemaParameters("query", meta.query, refs),
+      ...schemaParameters("header", meta.headers, refs),
+      ...schemaParameters("cookie", meta.cookies, refs),
+   ];
+
+   if (meta.pagination) {
+      const { query, defaultPageSize, maxPageSize, sortable, defaultSort } =
+         meta.pagination;
+      parameters.push(
+         queryParameter(query.pageIndex, {
+            type: "integer",
+            minimum: 0,
+            default: 0,
+         }),
+         queryParameter(query.pageSize, {
+            type: "integer",
+            minimum: 1,
+            maximum: maxPageSize,
+            default: defaultPageSize,
+         }),
+         queryParameter(query.sortBy, {
+            type: "string",
+            ...(sortable ? { enum: [...sortable] } : {}),
+            default: defaultSort,
+         }),
+         queryParameter(query.sortOrder, {
+            type: "string",
+            enum: ["asc", "desc"],
+         })
+      );
+   }
+
+   if (meta.cursor) {
+      const { query, defaultLimit, maxLimit } = meta.cursor;
+      parameters.push(
+         queryParameter(query.cursor, { type: "string" }),
+         queryParameter(query.limit, {
+            type: "integer",
+            minimum: 1,
+            maximum: maxLimit,
+            default: defaultLimit,
+         })
+      );
+   }
+
+   return parameters;
+}
+
+function buildRequestBody(
+   meta: RouteMeta,
+   refs: SchemaRefs
+): JsonSchema | undefined {
+   if (meta.body) {
+      const schema = toJsonSchema(meta.body.schema, refs);
+      const contentTypes = meta.body.contentTypes ?? ["application/json"];
+      return {
+         required: !meta.body.schema.isOptional(),
+         content: Object.fromEntries(
+            contentTypes.map((type) => [type, { schema }])
+         ),
+      };
+   }
+
+   if (meta.formData) {
+      const fields = toJsonSchema(meta.formData.schema, refs);
+      const properties = {
+         ...(fields.properties as Record<string, JsonSchema> | undefined),
+      };
+      const required = [...((fields.required as string[] | undefined) ?? [])];
+
+      for (const [name, rule] of Object.entries(meta.formData.files)) {
+         const file = { type: "string", format: "binary" };
+         properties[name] =
+            (rule.maxCount ?? 1) > 1
+               ? { type: "array", items: file, maxItems: rule.maxCount }
+               : file;
+         if (rule.required) required.push(name);
+      }
+
+      return {
+         required: true,
+         content: {
+            "multipart/form-data": {
+               schema: {
+                  type: "object",
+                  properties,
+                  ...(required.length ? { required } : {}),
+               },
+            },
+         },
+      };
+   }
+
+   return undefined;
+}
+
+function envelopeSchema(meta: RouteMeta, refs: SchemaRefs): JsonSchema {
+   return {
+      type: "object",
+      properties: {
+         code: { type: "integer" },
+         message: { type: "string" },
+         data: meta.response ? toJsonSchema(meta.response.schema, refs) : {},
+      },
+      required: ["code", "message"],
+   };
+}
+
+function errorStatuses(meta: RouteMeta, method: string): number[] {
+   const statuses = new Set<number>();
+   if (
+      meta.body ||
+      meta.formData ||
+      meta.params ||
+      meta.query ||
+      meta.headers ||
+      meta.cookies ||
+      meta.pagination?.sortable ||
+      meta.cursor
+   ) {
+      statuses.add(400);
+   }
+   if (meta.auth?.length) statuses.add(401);
+   if (meta.allow) statuses.add(405);
+   if (meta.timeout) statuses.add(408);
+   if (meta.formData) statuses.add(413);
+   if (meta.body) statuses.add(415);
+   if (meta.idempotent) statuses.add(409);
+   if (meta.etag?.ifMatch && (method === "put" || method === "patch")) {
+      statuses.add(412);
+   }
+   if (meta.rateLimit) statuses.add(429);
+   statuses.add(500);
+   return [...statuses];
+}
+
+function buildResponses(
+   meta: RouteMeta,
+   method: string,
+   refs: SchemaRefs
+): JsonSchema {
+   const responses: JsonSchema = {
+      "200": {
+         description: "Success",
+         ...(meta.etag
+            ? { headers: { ETag: { schema: { type: "string" } } } }
+            : {}),
+         content: {
+            "application/json": { schema: envelopeSchema(meta, refs) },
+         },
+      },
+   };
+
+   if (meta.etag && (method === "get" || method === "head")) {
+      responses["304"] = { description: "Not Modified" };
+   }
+
+   for (const status of errorStatuses(meta, method)) {
+      responses[String(status)] = {
+         description: ERROR_DESCRIPTIONS[status],
+         ...(status === 405 && meta.allow
+            ? {
+                 headers: {
+                    Allow: {
+                       schema: { type: "string", const: meta.allow.join(", ") },
+                    },
+                 },
+              }
+            : {}),
+         content: {
+            "application/json": {
+               schema: { $ref: "#/components/schemas/ErrorResponse" },
+            },
+         },
+      };
+   }
+   return responses;
+}
+
+function defaultSecurityScheme(auth: Auth): JsonSchema {
+   if (auth === "internal" || auth === "internal-session") {
+      return { type: "apiKey", in: "header", name: "x-internal-signature" };
+   }
+   return { type: "http", scheme: "bearer" };
+}
+
+const ERROR_RESPONSE_SCHEMA: JsonSchema = {
+   type: "object",
+   properties: {
+      code: { type: "integer" },
+      message: { type: "string" },
+      error: {
+         type: "object",
+         properties: {
+            url: { type: "string" },
+            method: { type: "string" },
+            requestId: { type: "string" },
+            body: { type: "object" },
+            fieldErrors: {
+               type: "object",
+               additionalProperties: {
+                  type: "array",
+                  items: { type: "string" },
+               },
+            },
+         },
+         required: ["url", "method"],
+      },
+   },
+   required: ["code", "message", "error"],
+};
+
+/**
+ * 라우트 목록으로 OpenAPI 3.1 문서를 생성합니다.
+ *
+ * @param options - 문서 정보와 `"<METHOD> <path>"` 키로 구성된 라우트 목록
+ * @returns OpenAPI 3.1 JSON 문서
+ */
+export function generateOpenAPI(
+   options: GenerateOpenAPIOptions
+): OpenAPIDocument {
+   const paths: OpenAPIDocument["paths"] = {};
+   const refs = createSchemaRefs("#/components/schemas/");
+   const securitySchemes: Record<string, JsonSchema> = {};
+
+   for (const [key, route] of Object.entries(options.routes)) {
+      const [rawMethod, path] = key.trim().split(/\s+/);
+      const method = rawMethod?.toLowerCase();
+      if (!method || !path || !HTTP_METHODS.includes(method)) {
+         throw new Error(
+            `❌ Invalid route key "${key}". Use "<METHOD> <path>".`
+         );
+      }
+
+      const { meta } = route;
+      const operation: JsonSchema = {
+         parameters: buildParameters(path, meta, refs),
+         responses: buildResponses(meta, method, refs),
+      };
+
+      const requestBody = buildRequestBody(meta, refs);
+      if (requestBody) operation.requestBody = requestBody;
+
+      if (meta.auth?.length) {
+         operation.security = [
+            Object.fromEntries(meta.auth.map((auth) => [auth, []])),
+         ];
+         for (const auth of meta.auth) {
+            securitySchemes[auth] =
+               options.securitySchemes?.[auth] ?? defaultSecurityScheme(auth);
+         }
+      }
+
+      paths[path] = { ...paths[path], [method]: operation };
+   }
+
+   return {
+      openapi: "3.1.0",
+      info: options.info ?? { title: "API", version: "1.0.0" },
+      ...(options.servers ? { servers: options.servers } : {}),
+      paths,
+      components: {
+         schemas: { ...refs.schemas, ErrorResponse: ERROR_RESPONSE_SCHEMA },
+         ...(Object.keys(securitySchemes).length ? { securitySchemes } : {}),
+      },
+   };
+}
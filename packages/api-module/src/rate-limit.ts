@@ -0,0 +1,229 @@
+/**
+ * @file rate-limit.ts
+ * @author 심명보 (https://github.com/jerry-sb)
+ * @description 고정 윈도우 / 토큰 버킷 방식의 요청 횟수 제한과 저장소 인터페이스
+ *
+ * 사용법
+ * getClient()
+ *    .auth("session")
+ *    .rateLimit({ key: (req, ctx) => ctx.session.id, limit: 10, window: 60_000 })
+ *    .handle(...);
+ */
+
+import { NextRequest } from "next/server";
+
+export type RateLimitAlgorithm = "fixed-window" | "token-bucket";
+
+export type FixedWindowState = { count: number; resetAt: number };
+
+export type TokenBucketState = { tokens: number; updatedAt: number };
+
+export type RateLimitState = FixedWindowState | TokenBucketState;
+
+/**
+ * 요청 1회를 소비할 때 적용하는 제한 규칙입니다.
+ */
+export type RateLimitRule = {
+   limit: number;
+   window: number;
+   algorithm: RateLimitAlgorithm;
+};
+
+/**
+ * 키별 요청 횟수(또는 남은 토큰)를 보관하는 저장소입니다.
+ */
+export interface RateLimitStore {
+   /**
+    * 키의 상태를 읽어 요청 1회를 소비하고 새 상태를 저장합니다.
+    * 동시에 들어온 요청이 같은 상태를 읽지 않도록 읽기와 쓰기는 원자적으로 실행되어야 합니다.
+    * (예: Redis는 Lua 스크립트나 `WATCH`/`MULTI`로 구현하고, 계산은 `applyRateLimit`을 사용할 수 있습니다.)
+    */
+   consume(key: string, rule: RateLimitRule): Promise<RateLimitResult>;
+}
+
+export type RateLimitOptions<Ctx> = {
+   /** 제한 단위를 구분하는 키 (기본값 클라이언트 IP, `getClientIp` 참고) */
+   key?: (req: NextRequest, context: Ctx) => string | Promise<string>;
+   /** 기본 키에서 `X-Forwarded-For`를 덧붙이는 신뢰하는 프록시 수 (기본값 1) */
+   trustProxy?: number;
+   /** 윈도우(또는 버킷 용량) 당 허용 요청 수 */
+   limit: number;
+   /** 윈도우 크기 (ms), 토큰 버킷은 이 시간 동안 `limit`개의 토큰이 채워집니다. */
+   window: number;
+   /** 제한 알고리즘 (기본값 "fixed-window") */
+   algorithm?: RateLimitAlgorithm;
+   /** 상태 저장소 (기본값 라우트별 메모리 저장소) */
+   store?: RateLimitStore;
+};
+
+export type RateLimitResult = {
+   allowed: boolean;
+   limit: number;
+   remaining: number;
+   /** 제한이 초기화되기까지 남은 시간 (ms) */
+   reset: number;
+   /** 다시 요청할 수 있기까지 남은 시간 (ms), 허용된 요청이면 0 */
+   retryAfter: number;
+};
+
+/**
+ * 상태 계산 결과입니다. `state`를 `ttl`(ms) 동안 보관하면 됩니다.
+ */
+export type RateLimitUpdate = {
+   state: RateLimitState;
+   ttl: number;
+   result: RateLimitResult;
+};
+
+/**
+ * 인스턴스마다 카운터를 따로 세는 메모리 저장소입니다.
+ * 상태를 읽고 쓰는 사이에 `await`가 없어 같은 키의 요청은 하나씩 순서대로 소비됩니다.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+   private entries = new Map<
+      string,
+      { state: RateLimitState; expiresAt: number }
+   >();
+
+   async consume(key: string, rule: RateLimitRule) {
+      const now = Date.now();
+      const entry = this.entries.get(key);
+      const saved = entry && entry.expiresAt > now ? entry.state : undefined;
+
+      const { state, ttl, result } = applyRateLimit(saved, rule, now);
+      this.entries.set(key, { state, expiresAt: now + ttl });
+      return result;
+   }
+}
+
+/**
+ * 프록시 헤더에서 클라이언트 IP를 찾습니다.
+ * `X-Forwarded-For`의 앞쪽 값은 클라이언트가 임의로 보낼 수 있으므로,
+ * 신뢰하는 프록시가 덧붙인 오른쪽 값부터 `trustProxy`번째 값을 사용합니다.
+ *
+ * @param trustProxy - 앱 앞에 있는 신뢰하는 프록시 수 (기본값 1)
+ */
+export function getClientIp(req: NextRequest, trustProxy = 1): string {
+   const forwarded = (req.headers.get("x-forwarded-for") ?? "")
+      .split(",")
+      .map((ip) => ip.trim())
+      .filter(Boolean);
+   const ip = forwarded[Math.max(forwarded.length - trustProxy, 0)];
+   return ip || req.headers.get("x-real-ip") || "unknown";
+}
+
+function applyFixedWindow(
+   saved: FixedWindowState | undefined,
+   { limit, window }: RateLimitRule,
+   now: number
+): RateLimitUpdate {
+   const state =
+      saved && saved.resetAt > now
+         ? saved
+         : { count: 0, resetAt: now + window };
+   const reset = state.resetAt - now;
+
+   if (state.count >= limit) {
+      return {
+         state,
+         ttl: reset,
+         result: {
+            allowed: false,
+            limit,
+            remaining: 0,
+            reset,
+            retryAfter: reset,
+         },
+      };
+   }
+
+   const count = state.count + 1;
+   return {
+      state: { count, resetAt: state.resetAt },
+      ttl: reset,
+      result: {
+         allowed: true,
+         limit,
+         remaining: limit - count,
+         reset,
+         retryAfter: 0,
+      },
+   };
+}
+
+function applyTokenBucket(
+   saved: TokenBucketState | undefined,
+   { limit, window }: RateLimitRule,
+   now: number
+): RateLimitUpdate {
+   const refillRate = limit / window;
+   const refilled = saved
+      ? Math.min(limit, saved.tokens + (now - saved.updatedAt) * refillRate)
+      : limit;
+
+   const allowed = refilled >= 1;
+   const tokens = allowed ? refilled - 1 : refilled;
+
+   return {
+      state: { tokens, updatedAt: now },
+      ttl: window,
+      result: {
+         allowed,
+         limit,
+         remaining: Math.floor(tokens),
+         reset: Math.ceil((limit - tokens) / refillRate),
+         retryAfter: allowed ? 0 : Math.ceil((1 - tokens) / refillRate),
+      },
+   };
+}
+
+/**
+ * 저장된 상태에서 요청 1회를 소비한 새 상태와 제한 결과를 계산합니다.
+ * 저장소를 직접 구현할 때 원자적 구간 안에서 호출합니다.
+ *
+ * @param saved - 저장된 상태 (없거나 만료되었으면 undefined)
+ */
+export function applyRateLimit(
+   saved: RateLimitState | undefined,
+   rule: RateLimitRule,
+   now: number
+): RateLimitUpdate {
+   return rule.algorithm === "token-bucket"
+      ? applyTokenBucket(saved as TokenBucketState | undefined, rule, now)
+      : applyFixedWindow(saved as FixedWindowState | undefined, rule, now);
+}
+
+/**
+ * 키에 해당하는 요청 1회를 소비하고 제한 결과를 반환합니다.
+ */
+export function consumeRateLimit(
+   store: RateLimitStore,
+   key: string,
+   options: Pick<RateLimitOptions<unknown>, "limit" | "window" | "algorithm">
+): Promise<RateLimitResult> {
+   return store.consume(key, {
+      limit: options.limit,
+      window: options.window,
+      algorithm: options.algorithm ?? "fixed-window",
+   });
+}
+
+/**
+ * 제한 결과를 `RateLimit-*` / `Retry-After` 헤더로 추가합니다.
+ */
+export function setRateLimitHeaders(
+   headers: Headers,
+   result: RateLimitResult,
+   window: number
+) {
+   headers.set("RateLimit-Limit", String(result.limit));
+   headers.set("RateLimit-Remaining", String(result.remaining));
+   headers.set("RateLimit-Reset", String(Math.ceil(result.reset / 1000)));
+   headers.set(
+      "RateLimit-Policy",
+      `${result.limit};w=${Math.ceil(window / 1000)}`
+   );
+   if (!result.allowed) {
+      headers.set("Retry-After", String(Math.ceil(result.retryAfter / 1000)));
+   }
+}
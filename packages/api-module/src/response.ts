@@ -0,0 +1,182 @@
+/**
+ * @file response.ts
+ * @author 심명보 (https://github.com/jerry-sb)
+ * @description 핸들러에서 상태 코드, 헤더, 쿠키를 제어할 수 있도록 하는 응답 헬퍼 모음
+ *
+ * 핸들러가 일반 값을 반환하면 `{ code: 200, message: "success", data }` 로 감싸지고,
+ * 이 모듈의 헬퍼(`created`, `noContent`, `withHeaders` 등)를 반환하면 지정한 상태 코드와 헤더가 적용됩니다.
+ * `NextResponse`를 직접 반환하면 아무런 가공 없이 그대로 전달됩니다.
+ */
+
+import { NextResponse } from "next/server";
+import type { PaginationParams, Response } from "./handler";
+import { formatETag } from "./etag";
+
+const ROUTE_RESULT = Symbol("api-module.route-result");
+
+export type ResponseCookie = Extract<
+   Parameters<NextResponse["cookies"]["set"]>,
+   [unknown]
+>[0];
+
+export type ResultInit = {
+   status?: number;
+   headers?: HeadersInit;
+   cookies?: ResponseCookie[];
+   /** 리소스 버전, 지정하면 본문 해시 대신 `ETag` 헤더로 사용됩니다. */
+   version?: string | number;
+   /** 리소스 수정 시각, 지정하면 `Last-Modified` 헤더가 설정됩니다. */
+   lastModified?: Date | string | number;
+};
+
+export type PageInfo = {
+   totalCount: number;
+   totalPages: number;
+   hasNext: boolean;
+};
+
+export type RouteResult<T> = ResultInit & {
+   readonly [ROUTE_RESULT]: true;
+   data?: T;
+   /** true 이면 envelope 없이 빈 본문으로 응답합니다. (204 등) */
+   empty?: boolean;
+   /** 전체 개수, 지정하면 envelope에 페이지 정보가 추가됩니다. */
+   totalCount?: number;
+};
+
+/**
+ * 핸들러가 반환할 수 있는 값의 타입입니다.
+ */
+export type HandlerResult<T> = T | RouteResult<T> | NextResponse;
+
+/**
+ * 상태 코드, 헤더, 쿠키를 지정하여 응답합니다.
+ *
+ * @param data - 응답 데이터
+ * @param init - 상태 코드, 헤더, 쿠키
+ */
+export function result<T>(data: T, init: ResultInit = {}): RouteResult<T> {
+   return { [ROUTE_RESULT]: true, ...init, data };
+}
+
+/**
+ * 201 Created 로 응답합니다. `location`을 지정하면 `Location` 헤더가 설정됩니다.
+ */
+export function created<T>(
+   data: T,
+   init: Omit<ResultInit, "status"> & { location?: string } = {}
+): RouteResult<T> {
+   const { location, ...rest } = init;
+   const headers = new Headers(rest.headers);
+   if (location) headers.set("Location", location);
+
+   return result(data, { ...rest, status: 201, headers });
+}
+
+/**
+ * 본문 없이 204 No Content 로 응답합니다.
+ */
+export function noContent(
+   init: Omit<ResultInit, "status"> = {}
+): RouteResult<never> {
+   return { [ROUTE_RESULT]: true, ...init, status: 204, empty: true };
+}
+
+/**
+ * 응답에 헤더를 추가합니다. (예: `Cache-Control`)
+ */
+export function withHeaders<T>(data: T, headers: HeadersInit): RouteResult<T> {
+   return result(data, { headers });
+}
+
+/**
+ * 응답에 쿠키(`Set-Cookie`)를 추가합니다.
+ */
+export function withCookies<T>(
+   data: T,
+   cookies: ResponseCookie[]
+): RouteResult<T> {
+   return result(data, { cookies });
+}
+
+/**
+ * 페이지네이션 결과로 응답합니다.
+ * `pagination()` 단계의 페이지 정보와 함께 envelope에 `totalCount`, `totalPages`, `hasNext`가 추가됩니다.
+ *
+ * @param items - 현재 페이지 목록
+ * @param totalCount - 전체 개수
+ */
+export function paginated<T>(
+   items: T[],
+   totalCount: number,
+   init: ResultInit = {}
+): RouteResult<T[]> {
+   return { ...result(items, init), totalCount };
+}
+
+function toPageInfo(
+   totalCount: number,
+   pagination: PaginationParams | undefined
+): PageInfo {
+   if (!pagination) {
+      throw new Error("❌ paginated() requires the pagination() step.");
+   }
+
+   const totalPages = Math.ceil(totalCount / pagination.pageSize);
+   return {
+      totalCount,
+      totalPages,
+      hasNext: pagination.pageIndex + 1 < totalPages,
+   };
+}
+
+export function isRouteResult(value: unknown): value is RouteResult<unknown> {
+   return typeof value === "object" && value !== null && ROUTE_RESULT in value;
+}
+
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+
+/**
+ * 핸들러의 반환값을 `NextResponse`로 변환합니다.
+ *
+ * @param value - 핸들러 반환값
+ * @param pagination - `paginated()` 응답에 사용할 현재 페이지 정보
+ */
+export function toResponse<T>(
+   value: HandlerResult<T>,
+   pagination?: PaginationParams
+): Response<T> {
+   if (value instanceof NextResponse) return value as Response<T>;
+
+   if (!isRouteResult(value)) {
+      return NextResponse.json({ code: 200, message: "success", data: value });
+   }
+
+   const status = value.status ?? 200;
+   const headers = new Headers(value.headers);
+   if (value.version !== undefined) {
+      headers.set("ETag", formatETag(value.version));
+   }
+   if (value.lastModified !== undefined) {
+      headers.set("Last-Modified", new Date(value.lastModified).toUTCString());
+   }
+
+   // 204, 205, 304 응답은 본문을 가질 수 없으므로 `data`가 있어도 본문 없이 응답합니다.
+   const response: Response<T> =
+      value.empty || NULL_BODY_STATUSES.has(status)
+         ? new NextResponse(null, { status, headers })
+         : NextResponse.json(
+              {
+                 code: status,
+                 message: "success",
+                 data: value.data as T,
+                 ...(value.totalCount !== undefined
+                    ? toPageInfo(value.totalCount, pagination)
+                    : {}),
+              },
+              { status, headers }
+           );
+
+   value.cookies?.forEach((cookie) => response.cookies.set(cookie));
+   return response;
+}
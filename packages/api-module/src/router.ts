@@ -0,0 +1,164 @@
+/**
+ * @file router.ts
+ * @author 심명보 (https://github.com/jerry-sb)
+ * @description 하나의 route.ts에서 여러 HTTP 메서드 핸들러를 공통 체인으로 정의하는 메서드 라우터
+ *
+ * 사용법
+ * export const { GET, POST, PUT, PATCH, DELETE, HEAD, OPTIONS } = defineRoute((base) => {
+ *    const route = base.auth("session").verifyParams(z.object({ id: z.string() }));
+ *    return {
+ *       GET: route.handle(async (req, ctx) => ...),
+ *       POST: route.verifyBody(schema).handle(async (req, ctx) => ...),
+ *    };
+ * });
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getClient } from "./client";
+import { handleServerError, MethodNotAllowedError } from "./error";
+import {
+   createRouteHandler,
+   Response,
+   RouteFunction,
+   RouteHandler,
+   RouteMeta,
+} from "./handler";
+import { noContent } from "./response";
+
+export type HttpMethod =
+   | "GET"
+   | "POST"
+   | "PUT"
+   | "PATCH"
+   | "DELETE"
+   | "HEAD"
+   | "OPTIONS";
+
+const HTTP_METHODS: HttpMethod[] = [
+   "GET",
+   "POST",
+   "PUT",
+   "PATCH",
+   "DELETE",
+   "HEAD",
+   "OPTIONS",
+];
+
+type RouteParams = Record<string, string | string[]>;
+
+/**
+ * 메서드별 핸들러의 공통 형태입니다. params 타입과 관계없이 모든 `handle()` 결과를 받습니다.
+ */
+type MethodRoute = ((
+   req: NextRequest,
+   context: { params: Promise<never> }
+) => Promise<NextResponse<unknown>>) & { meta: RouteMeta };
+
+/** 정의하지 않은 메서드에 자동으로 응답하는 핸들러 (405, HEAD, OPTIONS) */
+type FallbackRoute = RouteFunction<unknown, RouteParams>;
+
+export type RouteMethods = Partial<Record<HttpMethod, MethodRoute>>;
+
+export type DefinedRoute<M extends RouteMethods> = M &
+   Record<Exclude<HttpMethod, keyof M>, FallbackRoute>;
+
+type BaseRoute = RouteHandler<unknown, RouteParams, unknown, unknown, unknown>;
+
+function allowedMethods(methods: RouteMethods): HttpMethod[] {
+   const allowed = new Set(Object.keys(methods) as HttpMethod[]);
+   if (allowed.has("GET")) allowed.add("HEAD");
+   allowed.add("OPTIONS");
+
+   return HTTP_METHODS.filter((method) => allowed.has(method));
+}
+
+/**
+ * 여러 HTTP 메서드 핸들러를 하나의 공통 체인에서 정의합니다.
+ * 정의하지 않은 메서드는 `Allow` 헤더를 포함한 405 응답을 반환하고,
+ * `HEAD`(GET 기반)와 `OPTIONS`는 정의하지 않으면 자동으로 응답합니다.
+ *
+ * @param build - 공통 체인(`base`)을 받아 메서드별 핸들러를 반환하는 함수
+ * @param base - 공통 체인의 시작점 (기본값 `getClient()`)
+ * @returns route.ts에서 export 할 메서드별 핸들러
+ */
+export function defineRoute<M extends RouteMethods>(
+   build: (base: BaseRoute) => M,
+   base: BaseRoute = getClient<
+      unknown,
+      RouteParams,
+      unknown,
+      unknown,
+      unknown
+   >()
+): DefinedRoute<M> {
+   const methods = build(base);
+   const allowed = allowedMethods(methods);
+   const allow = allowed.join(", ");
+   const root = createRouteHandler<unknown, RouteParams>(base.options);
+
+   const notAllowed = root.handle(async (req) => {
+      const error = new MethodNotAllowedError();
+      const { client } = base.options;
+      const errorObj = client
+         ? await client.handleError(error, req)
+         : await handleServerError(error, req);
+      return NextResponse.json(errorObj, {
+         status: errorObj.code,
+         headers: { Allow: allow },
+      });
+   });
+
+   const routes = Object.fromEntries(
+      HTTP_METHODS.map((method) => [method, methods[method] ?? notAllowed])
+   ) as Record<HttpMethod, MethodRoute | FallbackRoute>;
+
+   const getRoute = methods.GET;
+   if (!methods.HEAD && getRoute) {
+      // GET 핸들러를 그대로 실행하고 본문 없이 상태 코드와 헤더만 응답합니다.
+      // 훅, 제한 시간, CORS는 GET 핸들러에서 한 번만 실행됩니다.
+      const headRoute = async (
+         req: NextRequest,
+         context: { params: Promise<RouteParams> }
+      ) => {
+         const response = await getRoute(
+            req,
+            context as { params: Promise<never> }
+         );
+         return new NextResponse(null, {
+            status: response.status,
+            headers: response.headers,
+         }) as Response<unknown>;
+      };
+      routes.HEAD = Object.assign(headRoute, { meta: getRoute.meta });
+   }
+   if (!methods.OPTIONS) {
+      const optionsRoute = root.handle(async () =>
+         noContent({ headers: { Allow: allow } })
+      );
+      // preflight는 요청한 메서드 핸들러의 `.cors()` 설정으로 응답하도록 해당 핸들러에 위임합니다.
+      // (CORS 설정이 있는 핸들러는 미들웨어를 실행하지 않고 preflight에 바로 응답합니다.)
+      const preflightRoute = async (
+         req: NextRequest,
+         context: { params: Promise<RouteParams> }
+      ) => {
+         const requested = req.headers
+            .get("access-control-request-method")
+            ?.toUpperCase() as HttpMethod | undefined;
+         const target = requested && routes[requested];
+         if (target && target !== notAllowed && target.meta.cors) {
+            return target(req, context as { params: Promise<never> });
+         }
+         return optionsRoute(req, context);
+      };
+      routes.OPTIONS = Object.assign(preflightRoute, {
+         meta: optionsRoute.meta,
+      });
+   }
+
+   // OpenAPI 문서에 405 응답과 Allow 헤더를 표시할 수 있도록 허용 메서드를 기록합니다.
+   for (const route of Object.values(routes)) {
+      route.meta = { ...route.meta, allow: allowed };
+   }
+
+   return routes as DefinedRoute<M>;
+}
@@ -0,0 +1,230 @@
+/**
+ * @file testing.ts
+ * @author 심명보 (https://github.com/jerry-sb)
+ * @description 라우트 핸들러 테스트용 유틸 (`@jerry-sb/api-module/testing`)
+ *
+ * 사용법
+ * import { invoke, resetTestState } from "@jerry-sb/api-module/testing";
+ *
+ * beforeEach(() => resetTestState());
+ *
+ * const res = await invoke(GET, { params: { id: "1" }, session: { id: "user-1" } });
+ * expect(res.status).toBe(200);
+ * expect(res.body?.data).toEqual({ id: "1" });
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { InferRoute, RouteTypes } from "./caller";
+import type { RouteFunction } from "./handler";
+import type { ErrorResponse } from "./error";
+import type { PageInfo } from "./response";
+import {
+   ApiClient,
+   ClientInstanceOptions,
+   createClient,
+   resetClient,
+} from "./client";
+import { resetMessageGetter } from "./messeage";
+import { setGlobalErrorHandler } from "./error";
+import { setLogger } from "./logger";
+import { container } from "./container";
+import {
+   authRegistry,
+   clearStrategy,
+   createInternalSignature,
+   INTERNAL_SIGNATURE_HEADER,
+   INTERNAL_TIMESTAMP_HEADER,
+   setAuthProvider,
+   signInternalRequest,
+} from "./auth";
+
+/**
+ * `invoke()`로 호출할 수 있는 라우트 핸들러입니다. params 타입과 관계없이 모든 `handle()` 결과를 받습니다.
+ */
+type AnyRoute = ((
+   req: NextRequest,
+   context: { params: Promise<never> }
+) => Promise<NextResponse<unknown>>) &
+   Pick<RouteFunction<unknown, unknown>, "meta" | "__types">;
+
+type QueryValue = string | number | boolean | null | undefined;
+
+export type InvokeOptions<R extends RouteTypes> = {
+   /** HTTP 메서드 (기본값 body가 있으면 "POST", 없으면 "GET") */
+   method?: string;
+   /** 요청 경로 (기본값 "/") */
+   path?: string;
+   params?: Partial<R["params"]>;
+   query?: Record<string, QueryValue | QueryValue[]>;
+   /** 객체는 JSON으로 직렬화되며, `FormData`와 문자열은 그대로 전달됩니다. */
+   body?: R["body"] | FormData | string;
+   headers?: HeadersInit;
+   /** 지정하면 이 요청 동안 `setAuthProvider`가 이 세션을 반환합니다. (null 이면 비로그인) */
+   session?: unknown;
+   /** true 이면 `InternalStrategy`가 검증할 수 있는 내부 요청 서명을 추가합니다. (`client`의 서명 키 사용) */
+   internal?: boolean | { secret: string };
+   /** `session`을 적용할 클라이언트 인스턴스 (기본값 기본 인스턴스) */
+   client?: ApiClient;
+};
+
+type RawInvokeOptions = InvokeOptions<RouteTypes>;
+
+/**
+ * 응답 본문 타입입니다. 성공 응답은 `data`, 에러 응답은 `error`를 가집니다.
+ */
+export type InvokeBody<T> = {
+   code: number;
+   message: string;
+   data?: T;
+   error?: ErrorResponse["error"];
+} & Partial<PageInfo>;
+
+export type InvokeResult<T> = {
+   status: number;
+   /** 본문이 없거나 JSON이 아닌 응답이면 null */
+   body: InvokeBody<T> | null;
+   headers: Headers;
+};
+
+/**
+ * 내부 요청 서명 헤더(`x-internal-signature`, `x-internal-timestamp`)를 만듭니다.
+ *
+ * @param secret - 서명 키 (기본값 기본 인스턴스의 `hmacKey` 또는 `INTERNAL_SERVER_SECRET_KEY` 환경 변수)
+ */
+export async function createInternalHeaders(
+   method: string,
+   pathname: string,
+   secret = authRegistry.getInternalSecret()!
+): Promise<Record<string, string>> {
+   const timestamp = String(Date.now());
+   return {
+      [INTERNAL_SIGNATURE_HEADER]: await createInternalSignature(
+         timestamp,
+         method,
+         pathname,
+         secret
+      ),
+      [INTERNAL_TIMESTAMP_HEADER]: timestamp,
+   };
+}
+
+/**
+ * `setAuthProvider`가 항상 주어진 세션을 반환하도록 설정합니다.
+ */
+export function mockSession<TSession>(session: TSession | null) {
+   setAuthProvider(async () => session);
+}
+
+/**
+ * 클라이언트 설정, 메시지, 인증 전략, 세션 공급자, 내부 요청 서명 키, 전역 에러 핸들러, Logger,
+ * 기본 DI 컨테이너(`container`)의 등록 정보를 초기 상태로 되돌립니다.
+ */
+export function resetTestState() {
+   resetClient();
+   resetMessageGetter();
+   clearStrategy();
+   authRegistry.setInternalSecret();
+   setAuthProvider(async () => null);
+   setGlobalErrorHandler();
+   setLogger();
+   container.reset();
+}
+
+/**
+ * 테스트 상태를 초기화하고 기본 설정으로 `createClient`를 호출합니다.
+ */
+export function createTestClient(
+   options: Partial<ClientInstanceOptions> = {}
+): ApiClient {
+   resetTestState();
+   return createClient({
+      lang: "kr",
+      pagination: {
+         pageIndex: "pageIndex",
+         pageSize: "pageSize",
+         sortBy: "sortBy",
+         sortOrder: "sortOrder",
+      },
+      ...options,
+   });
+}
+
+function buildUrl(path: string, query: RawInvokeOptions["query"] = {}) {
+   const url = new URL(path, "http://localhost");
+   for (const [key, value] of Object.entries(query)) {
+      const values = Array.isArray(value) ? value : [value];
+      values
+         .filter((v) => v !== undefined && v !== null)
+         .forEach((v) => url.searchParams.append(key, String(v)));
+   }
+   return url;
+}
+
+async function buildRequest(options: RawInvokeOptions): Promise<NextRequest> {
+   const { body } = options;
+   const method = options.method ?? (body === undefined ? "GET" : "POST");
+   const url = buildUrl(options.path ?? "/", options.query);
+   const headers = new Headers(options.headers);
+
+   let requestBody: BodyInit | undefined;
+   if (body instanceof FormData || typeof body === "string") {
+      requestBody = body;
+   } else if (body !== undefined) {
+      requestBody = JSON.stringify(body);
+      if (!headers.has("content-type")) {
+         headers.set("content-type", "application/json");
+      }
+   }
+
+   const req = new NextRequest(url, { method, headers, body: requestBody });
+   if (options.internal) {
+      const secret =
+         typeof options.internal === "object"
+            ? options.internal.secret
+            : (options.client?.auth ?? authRegistry).getInternalSecret()!;
+      await signInternalRequest(req, secret);
+   }
+   return req;
+}
+
+async function readBody<T>(res: Response): Promise<InvokeBody<T> | null> {
+   const text = await res.text();
+   if (!text) return null;
+   try {
+      return JSON.parse(text);
+   } catch {
+      return null;
+   }
+}
+
+/**
+ * `NextRequest`를 직접 만들지 않고 라우트 핸들러를 호출합니다.
+ *
+ * @param handler - `handle()`이 반환한 라우트 핸들러
+ * @param options - 메서드, params, query, body, headers, 세션, 내부 요청 서명 여부
+ * @returns 상태 코드, 파싱된 JSON 본문, 응답 헤더
+ */
+export async function invoke<H extends AnyRoute>(
+   handler: H,
+   options: InvokeOptions<InferRoute<H>> = {}
+): Promise<InvokeResult<InferRoute<H>["data"]>> {
+   const req = await buildRequest(options);
+   const registry = options.client?.auth ?? authRegistry;
+   const previousProvider = registry.getAuthProvider();
+   if ("session" in options) {
+      registry.setAuthProvider(async () => options.session);
+   }
+
+   try {
+      const res = await handler(req, {
+         params: Promise.resolve(options.params ?? {}) as Promise<never>,
+      });
+      return {
+         status: res.status,
+         body: await readBody<InferRoute<H>["data"]>(res),
+         headers: res.headers,
+      };
+   } finally {
+      registry.setAuthProvider(previousProvider);
+   }
+}
@@ -0,0 +1,103 @@
+/**
+ * @file web-crypto.ts
+ * @author 심명보 (https://github.com/jerry-sb)
+ * @description Web Crypto(`crypto.subtle`) 기반의 해시/HMAC 및 인코딩 유틸
+ *
+ * Node(>=18)와 Edge 런타임 모두에서 동작하도록 Node의 `crypto` 모듈과 `Buffer`를 사용하지 않습니다.
+ */
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function encodeText(text: string): Uint8Array {
+   return encoder.encode(text);
+}
+
+export function decodeText(bytes: Uint8Array): string {
+   return decoder.decode(bytes);
+}
+
+export function toHex(bytes: ArrayBuffer | Uint8Array): string {
+   return Array.from(new Uint8Array(bytes), (byte) =>
+      byte.toString(16).padStart(2, "0")
+   ).join("");
+}
+
+/**
+ * 소문자 hex 문자열을 바이트로 변환합니다. 형식이 맞지 않으면 null
+ */
+export function fromHex(hex: string): Uint8Array | null {
+   if (!/^(?:[0-9a-f]{2})+$/.test(hex)) return null;
+   return Uint8Array.from(hex.match(/../g)!, (byte) => parseInt(byte, 16));
+}
+
+export function toBase64Url(bytes: ArrayBuffer | Uint8Array): string {
+   const binary = Array.from(new Uint8Array(bytes), (byte) =>
+      String.fromCharCode(byte)
+   ).join("");
+   return btoa(binary)
+      .replace(/\+/g, "-")
+      .replace(/\//g, "_")
+      .replace(/=+$/, "");
+}
+
+/**
+ * base64url 문자열을 바이트로 변환합니다. 형식이 맞지 않으면 null
+ */
+export function fromBase64Url(value: string): Uint8Array | null {
+   if (!/^[A-Za-z0-9_-]*$/.test(value) || value.length % 4 === 1) return null;
+   const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+   const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+   return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+export async function digest(
+   algorithm: "SHA-1" | "SHA-256",
+   text: string
+): Promise<ArrayBuffer> {
+   return crypto.subtle.digest(algorithm, encodeText(text));
+}
+
+function importHmacKey(secret: string): Promise<CryptoKey> {
+   return crypto.subtle.importKey(
+      "raw",
+      encodeText(secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign", "verify"]
+   );
+}
+
+/**
+ * HMAC-SHA256 서명을 만듭니다.
+ */
+export async function hmacSign(
+   secret: string,
+   text: string
+): Promise<ArrayBuffer> {
+   const key = await importHmacKey(secret);
+   return crypto.subtle.sign("HMAC", key, encodeText(text));
+}
+
+/**
+ * HMAC-SHA256 서명을 상수 시간에 검증합니다.
+ *
+ * @returns 서명이 일치하면 true (키를 만들 수 없으면 false)
+ */
+export async function hmacVerify(
+   secret: string,
+   signature: Uint8Array,
+   text: string
+): Promise<boolean> {
+   try {
+      const key = await importHmacKey(secret);
+      return await crypto.subtle.verify(
+         "HMAC",
+         key,
+         signature,
+         encodeText(text)
+      );
+   } catch {
+      return false;
+   }
+}